@@ -3,16 +3,23 @@ import { nodeResolve } from '@rollup/plugin-node-resolve';
 import terser from '@rollup/plugin-terser';
 
 export default {
-  input: 'src/index.ts',
+  input: {
+    index: 'src/index.ts',
+    testing: 'src/testing/index.ts'
+  },
   output: [
     {
-      file: 'dist/index.js',
+      dir: 'dist',
+      entryFileNames: '[name].js',
+      chunkFileNames: 'chunks/[name]-[hash].js',
       format: 'cjs',
       sourcemap: true,
       exports: 'named'
     },
     {
-      file: 'dist/index.esm.js',
+      dir: 'dist',
+      entryFileNames: '[name].esm.js',
+      chunkFileNames: 'chunks/[name]-[hash].esm.js',
       format: 'esm',
       sourcemap: true
     }
@@ -0,0 +1,94 @@
+import { createStore } from '../state/store';
+import { createAsyncAction, createAsyncState, type AsyncState } from '../state/async';
+
+interface User {
+  id: number;
+  name: string;
+}
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+describe('Async actions', () => {
+  function setup() {
+    return createStore<{ user: AsyncState<User>; other: number }>({
+      initialState: { user: createAsyncState<User>(), other: 0 }
+    });
+  }
+
+  it('should track pending and success', async () => {
+    const store = setup();
+    const request = deferred<User>();
+    const loadUser = createAsyncAction(store, 'user', (_id: number) => request.promise);
+
+    const result = loadUser(1);
+    expect(store.getState().user.status).toBe('pending');
+
+    request.resolve({ id: 1, name: 'Ada' });
+    await expect(result).resolves.toEqual({ id: 1, name: 'Ada' });
+
+    const { user } = store.getState();
+    expect(user.status).toBe('success');
+    expect(user.data).toEqual({ id: 1, name: 'Ada' });
+    expect(user.updatedAt).toEqual(expect.any(Number));
+  });
+
+  it('should record errors', async () => {
+    const store = setup();
+    const error = new Error('not found');
+    const loadUser = createAsyncAction(store, 'user', async () => {
+      throw error;
+    });
+
+    await expect(loadUser()).resolves.toBeUndefined();
+
+    expect(store.getState().user.status).toBe('error');
+    expect(store.getState().user.error).toBe(error);
+  });
+
+  it('should ignore stale responses', async () => {
+    const store = setup();
+    const first = deferred<User>();
+    const second = deferred<User>();
+    const requests = [first, second];
+    const loadUser = createAsyncAction(store, 'user', () => requests.shift()!.promise);
+
+    const firstCall = loadUser();
+    const secondCall = loadUser();
+
+    second.resolve({ id: 2, name: 'Grace' });
+    await secondCall;
+    first.resolve({ id: 1, name: 'Ada' });
+    await firstCall;
+
+    expect(store.getState().user.data).toEqual({ id: 2, name: 'Grace' });
+  });
+
+  it('should keep previous data while pending', async () => {
+    const store = setup();
+    const loadUser = createAsyncAction(store, 'user', async (id: number) => ({ id, name: 'user' }));
+    await loadUser(1);
+
+    void loadUser(2);
+
+    expect(store.getState().user.status).toBe('pending');
+    expect(store.getState().user.data).toEqual({ id: 1, name: 'user' });
+  });
+
+  it('should reset to idle', async () => {
+    const store = setup();
+    const loadUser = createAsyncAction(store, 'user', async () => ({ id: 1, name: 'Ada' }));
+    await loadUser();
+
+    loadUser.reset();
+
+    expect(store.getState().user).toEqual(createAsyncState());
+  });
+});
@@ -0,0 +1,155 @@
+import { createStore } from '../state/store';
+import {
+  batch,
+  batchAsync,
+  setBatchContextStorage,
+  setBatchTimeout,
+  type AsyncContextStorage
+} from '../state/batch';
+
+const { AsyncLocalStorage } = jest.requireActual<{
+  AsyncLocalStorage: new () => AsyncContextStorage<any>;
+}>('async_hooks');
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+describe('batchAsync', () => {
+  afterEach(() => {
+    setBatchContextStorage(null);
+    setBatchTimeout(10000);
+    jest.restoreAllMocks();
+  });
+
+  it('should warn once when an update from outside is held without an async context', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const store = createStore({ initialState: { count: 0, other: 0 } });
+
+    let release!: () => void;
+    const gate = new Promise<void>(resolve => { release = resolve; });
+    const pending = batchAsync(async () => {
+      store.setState({ count: 1 });
+      await gate;
+    });
+    expect(warn).not.toHaveBeenCalled();
+
+    store.setState({ other: 1 });
+    store.setState({ other: 2 });
+    release();
+    await pending;
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('setBatchContextStorage'));
+  });
+
+  it('should hold notifications until the async batch ends', async () => {
+    const store = createStore({ initialState: { count: 0 } });
+    const listener = jest.fn();
+    store.subscribe(listener);
+
+    const done = batchAsync(async () => {
+      store.setState({ count: 1 });
+      await delay(5);
+      store.setState({ count: 2 });
+    });
+
+    expect(listener).not.toHaveBeenCalled();
+    await done;
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ count: 2 }, { count: 0 }, { mode: 'merge' });
+  });
+
+  it('should keep overlapping async batches apart', async () => {
+    setBatchContextStorage(new AsyncLocalStorage());
+    const slow = createStore({ initialState: { count: 0 } });
+    const fast = createStore({ initialState: { count: 0 } });
+    const slowListener = jest.fn();
+    const fastListener = jest.fn();
+    slow.subscribe(slowListener);
+    fast.subscribe(fastListener);
+
+    const slowBatch = batchAsync(async () => {
+      slow.setState({ count: 1 });
+      await delay(20);
+    });
+    await batchAsync(async () => {
+      await delay(1);
+      fast.setState({ count: 1 });
+    });
+
+    expect(fastListener).toHaveBeenCalledTimes(1);
+    expect(slowListener).not.toHaveBeenCalled();
+
+    await slowBatch;
+    expect(slowListener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not delay updates made outside the async flow', async () => {
+    setBatchContextStorage(new AsyncLocalStorage());
+    const store = createStore({ initialState: { count: 0 } });
+    const other = createStore({ initialState: { count: 0 } });
+    const listener = jest.fn();
+    other.subscribe(listener);
+
+    const pending = batchAsync(async () => {
+      store.setState({ count: 1 });
+      await delay(5);
+    });
+    other.setState({ count: 1 });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    await pending;
+  });
+
+  it('should hold a nested batch until the outer one ends', async () => {
+    setBatchContextStorage(new AsyncLocalStorage());
+    const store = createStore({ initialState: { count: 0 } });
+    const listener = jest.fn();
+    store.subscribe(listener);
+
+    await batchAsync(async () => {
+      await batchAsync(async () => {
+        store.setState({ count: 1 });
+      });
+      batch(() => {
+        store.setState({ count: 2 });
+      });
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should flush and warn when a batch stays open too long', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const store = createStore({ initialState: { count: 0 } });
+    const listener = jest.fn();
+    store.subscribe(listener);
+
+    const pending = batchAsync(async () => {
+      store.setState({ count: 1 });
+      await delay(30);
+      store.setState({ count: 2 });
+    }, { timeout: 5 });
+
+    await delay(15);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('still open after 5ms'));
+
+    await pending;
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  it('should warn about overlapping batches without an async context', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await Promise.all([
+      batchAsync(() => delay(1)),
+      batchAsync(() => delay(1))
+    ]);
+
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('setBatchContextStorage'));
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * @jest-environment jsdom
+ */
+import { createElement, Fragment } from 'react';
+import { render, act } from '@testing-library/react';
+import { createStoreContext } from '../state/context';
+import { enableStoreRegistry, disableStoreRegistry, getRegisteredStores } from '../state/registry';
+import type { Store, StoreMiddleware } from '../state/store';
+
+describe('createStoreContext', () => {
+  const CounterContext = createStoreContext({
+    initialState: { count: 0 },
+    name: 'counter'
+  });
+
+  function Counter({ label }: { label: string }) {
+    const count = CounterContext.useStore(s => s.count);
+    const store = CounterContext.useStoreApi();
+    return createElement(
+      'button',
+      { 'data-testid': label, onClick: () => store.setState({ count: count + 1 }) },
+      count
+    );
+  }
+
+  it('should give each Provider its own store', () => {
+    const { getByTestId } = render(
+      createElement(
+        Fragment,
+        null,
+        createElement(CounterContext.Provider, null, createElement(Counter, { label: 'a' })),
+        createElement(
+          CounterContext.Provider,
+          { initialState: { count: 10 } },
+          createElement(Counter, { label: 'b' })
+        )
+      )
+    );
+
+    act(() => {
+      getByTestId('a').click();
+    });
+
+    expect(getByTestId('a').textContent).toBe('1');
+    expect(getByTestId('b').textContent).toBe('10');
+  });
+
+  it('should destroy the store on unmount', () => {
+    jest.useFakeTimers();
+    let store: Store<{ count: number }> | null = null;
+    function Capture() {
+      store = CounterContext.useStoreApi();
+      return null;
+    }
+
+    const { unmount } = render(createElement(CounterContext.Provider, null, createElement(Capture)));
+    unmount();
+    act(() => {
+      jest.runAllTimers();
+    });
+
+    expect(() => store!.getState()).toThrow();
+    jest.useRealTimers();
+  });
+
+  it('should throw outside its Provider', () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(() => render(createElement(Counter, { label: 'x' }))).toThrow('within its Provider');
+    error.mockRestore();
+  });
+
+  it('should keep Provider stores out of the registry', () => {
+    enableStoreRegistry();
+    const warn = jest.spyOn(console, 'warn');
+
+    const { unmount } = render(
+      createElement(CounterContext.Provider, null, createElement(Counter, { label: 'a' }))
+    );
+    render(createElement(CounterContext.Provider, null, createElement(Counter, { label: 'b' })));
+    unmount();
+
+    expect(getRegisteredStores().has('counter')).toBe(false);
+    expect(warn).not.toHaveBeenCalled();
+    warn.mockRestore();
+    disableStoreRegistry();
+  });
+
+  it('should create middleware for each Provider', () => {
+    const attached: Store<any>[] = [];
+    const createMiddleware = jest.fn((): StoreMiddleware<{ count: number }>[] => {
+      const middleware: StoreMiddleware<{ count: number }> = (_context, next) => next();
+      middleware.attach = store => {
+        attached.push(store);
+      };
+      return [middleware];
+    });
+    const Context = createStoreContext({ initialState: { count: 0 }, middleware: createMiddleware });
+
+    render(createElement(Fragment, null, createElement(Context.Provider), createElement(Context.Provider)));
+
+    expect(createMiddleware).toHaveBeenCalledTimes(2);
+    expect(attached[0]).not.toBe(attached[1]);
+  });
+});
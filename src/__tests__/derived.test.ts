@@ -0,0 +1,94 @@
+import { createStore } from '../state/store';
+import { createDerivedStore } from '../state/derived';
+import { batch } from '../state/batch';
+
+describe('Derived Store', () => {
+  function setup() {
+    const items = createStore({ initialState: { items: [1, 2, 3] } });
+    const filter = createStore({ initialState: { min: 0 } });
+    const combiner = jest.fn((a: { items: number[] }, b: { min: number }) =>
+      a.items.filter(item => item > b.min)
+    );
+    const derived = createDerivedStore([items, filter], combiner);
+    return { items, filter, combiner, derived };
+  }
+
+  it('should compute from source stores', () => {
+    const { derived } = setup();
+    expect(derived.getState()).toEqual([1, 2, 3]);
+  });
+
+  it('should recompute only when sources change', () => {
+    const { filter, combiner, derived } = setup();
+
+    derived.getState();
+    derived.getState();
+    expect(combiner).toHaveBeenCalledTimes(1);
+
+    filter.setState({ min: 1 });
+    expect(derived.getState()).toEqual([2, 3]);
+    expect(combiner).toHaveBeenCalledTimes(2);
+  });
+
+  it('should notify subscribers when the derived value changes', () => {
+    const { filter, derived } = setup();
+    const listener = jest.fn();
+    derived.subscribe(listener);
+
+    filter.setState({ min: 2 });
+
+    expect(listener).toHaveBeenCalledWith([3], [1, 2, 3], { mode: 'merge' });
+  });
+
+  it('should not notify when equalityFn reports no change', () => {
+    const source = createStore({ initialState: { count: 1, other: 0 } });
+    const derived = createDerivedStore([source], s => s.count * 2);
+    const listener = jest.fn();
+    derived.subscribe(listener);
+
+    source.setState({ other: 1 });
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should notify once for batched source changes', () => {
+    const { items, filter, derived } = setup();
+    const listener = jest.fn();
+    derived.subscribe(listener);
+
+    batch(() => {
+      items.setState({ items: [5, 6] });
+      filter.setState({ min: 5 });
+    });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith([6], [1, 2, 3], { mode: 'merge' });
+  });
+
+  it('should only hold source listeners while observed', () => {
+    const { items, filter, derived } = setup();
+
+    const unsubscribe = derived.subscribe(() => {});
+    expect(items.getListenerCount()).toBe(1);
+    expect(filter.getListenerCount()).toBe(1);
+
+    unsubscribe();
+    expect(items.getListenerCount()).toBe(0);
+    expect(filter.getListenerCount()).toBe(0);
+  });
+
+  it('should release source listeners on destroy', () => {
+    const { items, derived } = setup();
+    derived.subscribe(() => {});
+
+    derived.destroy();
+
+    expect(items.getListenerCount()).toBe(0);
+    expect(() => derived.getState()).toThrow();
+  });
+
+  it('should be read-only', () => {
+    const { derived } = setup();
+    expect(() => derived.setState([] as any)).toThrow();
+  });
+});
@@ -0,0 +1,339 @@
+/**
+ * @jest-environment jsdom
+ */
+import { createStore } from '../state/store';
+import { connectDevTools, devToolsSerializer } from '../state/devtools';
+
+declare const process: { env: Record<string, string | undefined> };
+
+function installFakeExtension() {
+  let listener: ((message: any) => void) | null = null;
+  const connection = {
+    init: jest.fn(),
+    send: jest.fn(),
+    subscribe: jest.fn((fn: (message: any) => void) => {
+      listener = fn;
+      return () => {
+        listener = null;
+      };
+    }),
+    disconnect: jest.fn()
+  };
+  window.__REDUX_DEVTOOLS_EXTENSION__ = { connect: jest.fn(() => connection) };
+
+  return {
+    connection,
+    dispatch(payload: any, state?: any) {
+      listener?.({
+        type: 'DISPATCH',
+        payload,
+        state: state === undefined ? undefined : JSON.stringify(state)
+      });
+    },
+    isSubscribed: () => listener !== null
+  };
+}
+
+describe('DevTools', () => {
+  afterEach(() => {
+    delete window.__REDUX_DEVTOOLS_EXTENSION__;
+  });
+
+  it('should return undefined without the extension', () => {
+    const store = createStore({ initialState: { count: 0 } });
+    expect(connectDevTools(store)).toBeUndefined();
+  });
+
+  it('should send initial state and actions', () => {
+    const { connection } = installFakeExtension();
+    const store = createStore({ initialState: { count: 0 } });
+    connectDevTools(store, 'counter');
+
+    store.setState({ count: 1 }, { type: 'increment' });
+
+    expect(connection.init).toHaveBeenCalledWith({ count: 0 });
+    expect(connection.send).toHaveBeenCalledWith({ type: 'increment' }, { count: 1 });
+  });
+
+  it('should jump to a state without echoing it back', () => {
+    const fake = installFakeExtension();
+    const store = createStore<{ count: number; extra?: boolean }>({ initialState: { count: 0 } });
+    connectDevTools(store);
+    store.setState({ count: 1, extra: true });
+    fake.connection.send.mockClear();
+
+    fake.dispatch({ type: 'JUMP_TO_STATE' }, { count: 0 });
+
+    expect(store.getState()).toEqual({ count: 0 });
+    expect(fake.connection.send).not.toHaveBeenCalled();
+  });
+
+  it('should reset to the initial state', () => {
+    const fake = installFakeExtension();
+    const store = createStore({ initialState: { count: 0 } });
+    connectDevTools(store);
+    store.setState({ count: 5 });
+
+    fake.dispatch({ type: 'RESET' });
+
+    expect(store.getState()).toEqual({ count: 0 });
+    expect(fake.connection.init).toHaveBeenLastCalledWith({ count: 0 });
+  });
+
+  it('should commit and roll back', () => {
+    const fake = installFakeExtension();
+    const store = createStore({ initialState: { count: 0 } });
+    connectDevTools(store);
+    store.setState({ count: 2 });
+
+    fake.dispatch({ type: 'COMMIT' });
+    expect(fake.connection.init).toHaveBeenLastCalledWith({ count: 2 });
+
+    store.setState({ count: 3 });
+    fake.dispatch({ type: 'ROLLBACK' }, { count: 2 });
+
+    expect(store.getState()).toEqual({ count: 2 });
+    expect(fake.connection.init).toHaveBeenLastCalledWith({ count: 2 });
+  });
+
+  it('should import a lifted state', () => {
+    const fake = installFakeExtension();
+    const store = createStore({ initialState: { count: 0 } });
+    connectDevTools(store);
+    const nextLiftedState = {
+      computedStates: [{ state: { count: 0 } }, { state: { count: 42 } }]
+    };
+
+    fake.dispatch({ type: 'IMPORT_STATE', nextLiftedState });
+
+    expect(store.getState()).toEqual({ count: 42 });
+    expect(fake.connection.send).toHaveBeenLastCalledWith(null, nextLiftedState);
+  });
+
+  it('should replay history without a toggled action', () => {
+    const fake = installFakeExtension();
+    const store = createStore({ initialState: { count: 0 } });
+    connectDevTools(store);
+    store.setState(prev => ({ count: prev.count + 1 }), { type: 'increment' });
+    store.setState(prev => ({ count: prev.count + 10 }), { type: 'addTen' });
+
+    fake.dispatch({ type: 'TOGGLE_ACTION', id: 1 });
+    expect(store.getState().count).toBe(10);
+
+    const lifted = fake.connection.send.mock.calls[fake.connection.send.mock.calls.length - 1][1];
+    expect(lifted.skippedActionIds).toEqual([1]);
+
+    fake.dispatch({ type: 'TOGGLE_ACTION', id: 1 });
+    expect(store.getState().count).toBe(11);
+  });
+
+  it('should replay replaceState without bringing back removed keys', () => {
+    const fake = installFakeExtension();
+    const store = createStore<{ count: number; extra?: string }>({ initialState: { count: 0, extra: 'x' } });
+    connectDevTools(store);
+    store.setState(prev => ({ count: prev.count + 1 }), { type: 'increment' });
+    store.replaceState({ count: 1 }, { type: 'load' });
+    store.setState(prev => ({ count: prev.count + 10 }), { type: 'addTen' });
+
+    fake.dispatch({ type: 'TOGGLE_ACTION', id: 1 });
+
+    expect(store.getState()).toEqual({ count: 11 });
+  });
+
+  it('should not record updates a later middleware vetoed', () => {
+    const fake = installFakeExtension();
+    const store = createStore({ initialState: { count: 0 } });
+    connectDevTools(store);
+    store.use((context, next) => {
+      if (context.action?.type !== 'blocked') next();
+    });
+    store.setState(prev => ({ count: prev.count + 1 }), { type: 'increment' });
+    store.setState({ count: 100 }, { type: 'blocked' });
+
+    expect(fake.connection.send).toHaveBeenCalledTimes(1);
+
+    fake.dispatch({ type: 'TOGGLE_ACTION', id: 1 });
+    expect(store.getState().count).toBe(0);
+    fake.dispatch({ type: 'TOGGLE_ACTION', id: 1 });
+    expect(store.getState().count).toBe(1);
+  });
+
+  it('should record updates a later middleware deferred once they commit', () => {
+    const fake = installFakeExtension();
+    const store = createStore({ initialState: { count: 0 } });
+    connectDevTools(store);
+    let release = () => {};
+    store.use((context, next) => {
+      if (context.action?.type === 'increment') {
+        release = next;
+      } else {
+        next();
+      }
+    });
+
+    store.setState(prev => ({ count: prev.count + 1 }), { type: 'increment' });
+    expect(fake.connection.send).not.toHaveBeenCalled();
+
+    release();
+    expect(fake.connection.send).toHaveBeenCalledWith({ type: 'increment' }, { count: 1 });
+
+    fake.dispatch({ type: 'TOGGLE_ACTION', id: 1 });
+    expect(store.getState().count).toBe(0);
+  });
+
+  it('should unsubscribe and disconnect on cleanup', () => {
+    const fake = installFakeExtension();
+    const store = createStore({ initialState: { count: 0 } });
+    const disconnect = connectDevTools(store)!;
+
+    disconnect();
+
+    expect(fake.isSubscribed()).toBe(false);
+    expect(fake.connection.disconnect).toHaveBeenCalled();
+  });
+
+  it('should sanitize actions and states', () => {
+    const { connection } = installFakeExtension();
+    const store = createStore({ initialState: { token: 'secret', count: 0 } });
+    connectDevTools(store, {
+      actionSanitizer: action => ({ ...action, payload: '<redacted>' }),
+      stateSanitizer: state => ({ ...state, token: '<redacted>' })
+    });
+
+    store.setState({ count: 1 }, { type: 'increment', payload: 'secret' });
+
+    expect(connection.init).toHaveBeenCalledWith({ token: '<redacted>', count: 0 });
+    expect(connection.send).toHaveBeenCalledWith(
+      { type: 'increment', payload: '<redacted>' },
+      { token: '<redacted>', count: 1 }
+    );
+  });
+
+  it('should jump to the real state when states are sanitized', () => {
+    const fake = installFakeExtension();
+    const store = createStore({ initialState: { token: 'secret', count: 0 } });
+    connectDevTools(store, { stateSanitizer: state => ({ ...state, token: '<redacted>' }) });
+    store.setState({ count: 1 });
+    store.setState({ count: 2 });
+
+    fake.dispatch({ type: 'JUMP_TO_ACTION', actionId: 1 }, { token: '<redacted>', count: 1 });
+    expect(store.getState()).toEqual({ token: 'secret', count: 1 });
+
+    fake.dispatch({ type: 'JUMP_TO_STATE', index: 2, actionId: 2 }, { token: '<redacted>', count: 2 });
+    expect(store.getState()).toEqual({ token: 'secret', count: 2 });
+
+    fake.dispatch({ type: 'ROLLBACK' }, { token: '<redacted>', count: 0 });
+    expect(store.getState()).toEqual({ token: 'secret', count: 0 });
+  });
+
+  it('should pass maxAge and serializer to the extension', () => {
+    installFakeExtension();
+    const store = createStore({ initialState: { count: 0 } });
+
+    connectDevTools(store, { name: 'counter', maxAge: 10 });
+
+    expect(window.__REDUX_DEVTOOLS_EXTENSION__!.connect).toHaveBeenCalledWith({
+      name: 'counter',
+      maxAge: 10,
+      serialize: devToolsSerializer
+    });
+  });
+
+  it('should keep replay correct past maxAge', () => {
+    const fake = installFakeExtension();
+    const store = createStore({ initialState: { count: 0 } });
+    connectDevTools(store, { maxAge: 2 });
+    store.setState(prev => ({ count: prev.count + 1 }));
+    store.setState(prev => ({ count: prev.count + 10 }));
+    store.setState(prev => ({ count: prev.count + 100 }));
+
+    fake.dispatch({ type: 'TOGGLE_ACTION', id: 3 });
+
+    expect(store.getState().count).toBe(11);
+  });
+
+  it('should jump and toggle by action id after maxAge trims', () => {
+    const fake = installFakeExtension();
+    const store = createStore({ initialState: { count: 0 } });
+    connectDevTools(store, { maxAge: 4 });
+    for (let i = 1; i <= 6; i++) {
+      store.setState({ count: i });
+    }
+
+    fake.dispatch({ type: 'JUMP_TO_ACTION', actionId: 3 });
+    expect(store.getState().count).toBe(3);
+
+    fake.dispatch({ type: 'TOGGLE_ACTION', id: 6 });
+    expect(store.getState().count).toBe(5);
+
+    const lifted = fake.connection.send.mock.calls[fake.connection.send.mock.calls.length - 1][1];
+    expect(lifted.stagedActionIds).toEqual([0, 3, 4, 5, 6]);
+    expect(lifted.skippedActionIds).toEqual([6]);
+  });
+
+  it('should step through an imported history', () => {
+    const fake = installFakeExtension();
+    const store = createStore({ initialState: { count: 0 } });
+    connectDevTools(store);
+    store.setState({ count: 1 });
+    store.setState({ count: 2 });
+
+    fake.dispatch({
+      type: 'IMPORT_STATE',
+      nextLiftedState: {
+        actionsById: { 0: { action: { type: '@@INIT' } }, 1: { action: { type: 'a' } }, 2: { action: { type: 'b' } } },
+        computedStates: [{ state: { count: 100 } }, { state: { count: 200 } }, { state: { count: 300 } }],
+        stagedActionIds: [0, 1, 2],
+        nextActionId: 3
+      }
+    });
+    expect(store.getState().count).toBe(300);
+
+    fake.dispatch({ type: 'JUMP_TO_STATE', index: 1, actionId: 1 });
+    expect(store.getState().count).toBe(200);
+
+    fake.dispatch({ type: 'JUMP_TO_STATE', index: 0, actionId: 0 });
+    expect(store.getState().count).toBe(100);
+  });
+
+  it('should round-trip Map, Set and Date', () => {
+    const state = {
+      map: new Map([['a', 1]]),
+      set: new Set([1, 2]),
+      date: new Date('2024-01-01T00:00:00.000Z')
+    };
+
+    const json = JSON.stringify(state, devToolsSerializer.replacer);
+    const revived = JSON.parse(json, devToolsSerializer.reviver);
+
+    expect(revived.map).toEqual(state.map);
+    expect(revived.set).toEqual(state.set);
+    expect(revived.date).toEqual(state.date);
+  });
+
+  it('should be a no-op in production', () => {
+    const env = process.env.NODE_ENV;
+    process.env.NODE_ENV = 'production';
+    try {
+      const { connection } = installFakeExtension();
+      const store = createStore({ initialState: { count: 0 } });
+
+      expect(connectDevTools(store)).toBeUndefined();
+      expect(connection.init).not.toHaveBeenCalled();
+    } finally {
+      process.env.NODE_ENV = env;
+    }
+  });
+
+  it('should connect from the store config', () => {
+    const { connection } = installFakeExtension();
+    const store = createStore({ initialState: { count: 0 }, name: 'counter', devtools: true });
+
+    store.setState({ count: 1 });
+
+    expect(window.__REDUX_DEVTOOLS_EXTENSION__!.connect).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'counter' })
+    );
+    expect(connection.send).toHaveBeenCalled();
+  });
+});
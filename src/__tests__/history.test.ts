@@ -0,0 +1,110 @@
+import { createStore } from '../state/store';
+import { withHistory } from '../state/history';
+import { batch, batchAsync } from '../state/batch';
+
+describe('History', () => {
+  function setup(limit?: number) {
+    return withHistory(
+      createStore<{ count: number; extra?: string }>({ initialState: { count: 0 } }),
+      { limit }
+    );
+  }
+
+  it('should undo and redo', () => {
+    const store = setup();
+
+    store.setState({ count: 1 });
+    store.setState({ count: 2 });
+
+    store.undo();
+    expect(store.getState().count).toBe(1);
+    store.undo();
+    expect(store.getState().count).toBe(0);
+    expect(store.canUndo()).toBe(false);
+
+    store.redo();
+    expect(store.getState().count).toBe(1);
+    expect(store.canRedo()).toBe(true);
+  });
+
+  it('should restore removed keys exactly', () => {
+    const store = setup();
+
+    store.setState({ extra: 'x' });
+    store.undo();
+
+    expect(store.getState()).toEqual({ count: 0 });
+  });
+
+  it('should drop redo entries on new changes', () => {
+    const store = setup();
+
+    store.setState({ count: 1 });
+    store.undo();
+    store.setState({ count: 5 });
+
+    expect(store.canRedo()).toBe(false);
+  });
+
+  it('should notify listeners on undo', () => {
+    const store = setup();
+    const listener = jest.fn();
+    store.setState({ count: 1 });
+    store.subscribe(listener);
+
+    store.undo();
+
+    expect(listener).toHaveBeenCalledWith({ count: 0 }, { count: 1 }, { mode: 'replace' });
+  });
+
+  it('should record a batch as one entry', () => {
+    const store = setup();
+
+    batch(() => {
+      store.setState({ count: 1 });
+      store.setState({ count: 2 });
+    });
+
+    store.undo();
+    expect(store.getState().count).toBe(0);
+    expect(store.canUndo()).toBe(false);
+  });
+
+  it('should record an async batch as one entry', async () => {
+    const store = setup();
+
+    await batchAsync(async () => {
+      store.setState({ count: 1 });
+      await Promise.resolve();
+      store.setState({ count: 2 });
+    });
+
+    store.undo();
+    expect(store.getState().count).toBe(0);
+  });
+
+  it('should respect the limit', () => {
+    const store = setup(2);
+
+    store.setState({ count: 1 });
+    store.setState({ count: 2 });
+    store.setState({ count: 3 });
+    store.undo();
+    store.undo();
+
+    expect(store.getState().count).toBe(1);
+    expect(store.canUndo()).toBe(false);
+  });
+
+  it('should clear history', () => {
+    const store = setup();
+    store.setState({ count: 1 });
+    store.undo();
+
+    store.clearHistory();
+
+    expect(store.canUndo()).toBe(false);
+    expect(store.canRedo()).toBe(false);
+  });
+
+});
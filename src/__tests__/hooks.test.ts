@@ -0,0 +1,144 @@
+/**
+ * @jest-environment jsdom
+ */
+import { createElement, Suspense, type ReactNode } from 'react';
+import { renderHook, render, act } from '@testing-library/react';
+import { createStore } from '../state/store';
+import { useStore, useStores } from '../state/hooks';
+import { batch } from '../state/batch';
+import { StoreProvider } from '../state/provider';
+
+describe('useStore', () => {
+  it('should read and follow the store', () => {
+    const store = createStore({ initialState: { count: 0 } });
+    const { result } = renderHook(() => useStore(store, s => s.count));
+
+    expect(result.current).toBe(0);
+
+    act(() => {
+      store.setState({ count: 1 });
+    });
+
+    expect(result.current).toBe(1);
+  });
+
+  it('should read from the scoped instance inside StoreProvider', () => {
+    const store = createStore({ initialState: { count: 0 }, name: 'counter' });
+    const wrapper = ({ children }: { children: ReactNode }) =>
+      createElement(StoreProvider, { state: { counter: { count: 5 } } }, children);
+
+    const { result } = renderHook(() => useStore(store, s => s.count), { wrapper });
+
+    expect(result.current).toBe(5);
+    expect(store.getState().count).toBe(0);
+  });
+});
+
+describe('useStores', () => {
+  function setup() {
+    const items = createStore({ initialState: { items: [1, 2, 3] } });
+    const filter = createStore({ initialState: { min: 0 } });
+    return { items, filter };
+  }
+
+  it('should combine several stores', () => {
+    const { items, filter } = setup();
+    const { result } = renderHook(() =>
+      useStores([items, filter], (a, b) => a.items.filter(item => item > b.min).length)
+    );
+
+    expect(result.current).toBe(3);
+
+    act(() => {
+      filter.setState({ min: 1 });
+    });
+
+    expect(result.current).toBe(2);
+  });
+
+  it('should render once for a batch across stores', () => {
+    const { items, filter } = setup();
+    const seen: Array<[number, number]> = [];
+    renderHook(() => {
+      const value = useStores([items, filter], (a, b) => [a.items.length, b.min] as [number, number]);
+      seen.push(value);
+      return value;
+    });
+    seen.length = 0;
+
+    act(() => {
+      batch(() => {
+        items.setState({ items: [1] });
+        filter.setState({ min: 5 });
+      });
+    });
+
+    expect(seen).toEqual([[1, 5]]);
+  });
+
+  it('should skip renders when equalityFn matches', () => {
+    const { items, filter } = setup();
+    let renders = 0;
+    renderHook(() => {
+      renders++;
+      return useStores([items, filter], (a, b) => ({ count: a.items.length, min: b.min }), (x, y) =>
+        x.count === y.count && x.min === y.min
+      );
+    });
+    renders = 0;
+
+    act(() => {
+      items.setState({ items: [4, 5, 6] });
+    });
+
+    expect(renders).toBe(0);
+  });
+});
+
+describe('useStore with async initialization', () => {
+  it('should suspend until the store is ready', async () => {
+    let resolve!: (state: { count: number }) => void;
+    const store = createStore<{ count: number }>({
+      initialState: () => new Promise(res => { resolve = res; }),
+      placeholder: { count: 0 }
+    });
+    function Count() {
+      const count = useStore(store, s => s.count, Object.is, { suspense: true });
+      return createElement('span', null, count);
+    }
+
+    const { container } = render(
+      createElement(Suspense, { fallback: createElement('span', null, 'loading') }, createElement(Count))
+    );
+    expect(container.textContent).toBe('loading');
+
+    await act(async () => {
+      resolve({ count: 3 });
+      await store.ready();
+    });
+
+    expect(container.textContent).toBe('3');
+  });
+
+  it('should render the placeholder without suspense', async () => {
+    let resolve!: (state: { count: number }) => void;
+    const store = createStore<{ count: number }>({
+      initialState: () => new Promise(res => { resolve = res; }),
+      placeholder: { count: 0 }
+    });
+    function Count() {
+      const count = useStore(store, s => s.count);
+      return createElement('span', null, count);
+    }
+
+    const { container } = render(createElement(Count));
+    expect(container.textContent).toBe('0');
+
+    await act(async () => {
+      resolve({ count: 3 });
+      await store.ready();
+    });
+
+    expect(container.textContent).toBe('3');
+  });
+});
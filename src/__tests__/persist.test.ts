@@ -0,0 +1,320 @@
+import { createPersistedStore } from '../state/persist';
+import { createIndexedDBStorage, type AsyncStorage } from '../state/storage';
+
+function createMemoryStorage(initial: Record<string, string> = {}) {
+  const data = new Map(Object.entries(initial));
+  return {
+    data,
+    getItem: (key: string) => data.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      data.set(key, value);
+    },
+    removeItem: (key: string) => {
+      data.delete(key);
+    }
+  };
+}
+
+function createAsyncMemoryStorage(initial: Record<string, string> = {}): AsyncStorage & { data: Map<string, string> } {
+  const sync = createMemoryStorage(initial);
+  const later = <R>(fn: () => R) => new Promise<R>(resolve => setTimeout(() => resolve(fn()), 5));
+  return {
+    data: sync.data,
+    getItem: key => later(() => sync.getItem(key)),
+    setItem: (key, value) => later(() => sync.setItem(key, value)),
+    removeItem: key => later(() => sync.removeItem(key))
+  };
+}
+
+// Just enough of IndexedDB for object stores with get, put and delete
+function createFakeIndexedDB(): IDBFactory {
+  const databases = new Map<string, { version: number; stores: Map<string, Map<IDBValidKey, unknown>> }>();
+
+  function settle(transaction: any, operation: () => unknown) {
+    const request: any = {};
+    setTimeout(() => {
+      request.result = operation();
+      request.onsuccess?.();
+      transaction.oncomplete?.();
+    });
+    return request;
+  }
+
+  function createDatabase(version: number, stores: Map<string, Map<IDBValidKey, unknown>>) {
+    return {
+      version,
+      objectStoreNames: { contains: (name: string) => stores.has(name) },
+      close() {},
+      createObjectStore(name: string) {
+        stores.set(name, new Map());
+      },
+      transaction(name: string) {
+        const data = stores.get(name);
+        if (!data) {
+          throw new Error(`NotFoundError: ${name}`);
+        }
+        const transaction: any = {
+          error: null,
+          objectStore: () => ({
+            get: (key: IDBValidKey) => settle(transaction, () => data.get(key)),
+            put: (value: unknown, key: IDBValidKey) => settle(transaction, () => data.set(key, value) && key),
+            delete: (key: IDBValidKey) => settle(transaction, () => {
+              data.delete(key);
+            })
+          })
+        };
+        return transaction;
+      }
+    };
+  }
+
+  return {
+    open(name: string, version?: number) {
+      const request: any = {};
+      setTimeout(() => {
+        let database = databases.get(name);
+        const needsUpgrade = !database || (version !== undefined && version > database.version);
+        if (!database) {
+          database = { version: version ?? 1, stores: new Map() };
+          databases.set(name, database);
+        } else if (needsUpgrade) {
+          database.version = version!;
+        }
+        request.result = createDatabase(database.version, database.stores);
+        if (needsUpgrade) {
+          request.onupgradeneeded?.();
+        }
+        request.onsuccess?.();
+      });
+      return request;
+    }
+  } as unknown as IDBFactory;
+}
+
+describe('createPersistedStore', () => {
+  it('should load and save with synchronous storage', () => {
+    const storage = createMemoryStorage({ settings: JSON.stringify({ theme: 'dark', __version: 1 }) });
+    const store = createPersistedStore(
+      { initialState: { theme: 'light', fontSize: 14 } },
+      { key: 'settings', storage, throttleMs: 0 }
+    );
+
+    expect(store.getStatus()).toBe('ready');
+    expect(store.getState()).toEqual({ theme: 'dark', fontSize: 14 });
+
+    store.setState({ fontSize: 16 });
+    expect(JSON.parse(storage.data.get('settings')!)).toEqual({ theme: 'dark', fontSize: 16, __version: 1 });
+  });
+
+  it('should hydrate without going through middleware', () => {
+    const storage = createMemoryStorage({ settings: JSON.stringify({ theme: 'dark', __version: 1 }) });
+    const middleware = jest.fn((_context, next) => next());
+    const store = createPersistedStore(
+      { initialState: { theme: 'light', fontSize: 14 }, middleware: [middleware] },
+      { key: 'settings', storage, throttleMs: 0 }
+    );
+
+    expect(store.getState()).toEqual({ theme: 'dark', fontSize: 14 });
+    expect(store.getInitialState()).toEqual({ theme: 'dark', fontSize: 14 });
+    expect(middleware).not.toHaveBeenCalled();
+  });
+
+  it('should save the last throttled write on destroy', () => {
+    const storage = createMemoryStorage();
+    const store = createPersistedStore(
+      { initialState: { n: 0 } },
+      { key: 'counter', storage, throttleMs: 1000 }
+    );
+
+    store.setState({ n: 1 });
+    store.setState({ n: 2 });
+    store.destroy();
+
+    expect(JSON.parse(storage.data.get('counter')!)).toEqual({ n: 2, __version: 1 });
+  });
+
+  it('should stay loading until async storage has hydrated', async () => {
+    const storage = createAsyncMemoryStorage({ settings: JSON.stringify({ theme: 'dark', __version: 1 }) });
+    const store = createPersistedStore(
+      { initialState: { theme: 'light', fontSize: 14 } },
+      { key: 'settings', storage, throttleMs: 0 }
+    );
+
+    const listener = jest.fn();
+    store.subscribe(listener);
+
+    expect(store.getStatus()).toBe('loading');
+    expect(store.getState()).toEqual({ theme: 'light', fontSize: 14 });
+
+    await store.ready();
+
+    expect(store.getStatus()).toBe('ready');
+    expect(store.getState()).toEqual({ theme: 'dark', fontSize: 14 });
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(
+      { theme: 'dark', fontSize: 14 },
+      { theme: 'light', fontSize: 14 },
+      { mode: 'replace' }
+    );
+  });
+
+  it('should keep and save writes made while hydrating', async () => {
+    const storage = createAsyncMemoryStorage({ settings: JSON.stringify({ theme: 'dark', __version: 1 }) });
+    const store = createPersistedStore(
+      { initialState: { theme: 'light', fontSize: 14 } },
+      { key: 'settings', storage, throttleMs: 0 }
+    );
+
+    store.setState({ fontSize: 16 });
+    await store.ready();
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    expect(store.getState()).toEqual({ theme: 'dark', fontSize: 16 });
+    expect(JSON.parse(storage.data.get('settings')!)).toEqual({ theme: 'dark', fontSize: 16, __version: 1 });
+  });
+
+  it('should save to and clear async storage', async () => {
+    const storage = createAsyncMemoryStorage();
+    const store = createPersistedStore(
+      { initialState: { count: 0 } },
+      { key: 'counter', storage, throttleMs: 0 }
+    );
+    await store.ready();
+
+    store.setState({ count: 3 });
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(JSON.parse(storage.data.get('counter')!)).toEqual({ count: 3, __version: 1 });
+
+    await store.clearPersisted();
+    expect(storage.data.has('counter')).toBe(false);
+    expect(store.getState()).toEqual({ count: 3 });
+  });
+
+  it('should fall back to defaults when async storage fails', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const storage = createAsyncMemoryStorage();
+    storage.getItem = () => Promise.reject(new Error('quota'));
+
+    const store = createPersistedStore({ initialState: { count: 0 } }, { key: 'counter', storage });
+    await store.ready();
+
+    expect(store.getState()).toEqual({ count: 0 });
+    expect(error).toHaveBeenCalledWith('[Persist] Failed to load state:', expect.any(Error));
+    error.mockRestore();
+  });
+});
+
+describe('Selective persistence', () => {
+  it('should only write included keys', () => {
+    const storage = createMemoryStorage();
+    const store = createPersistedStore(
+      { initialState: { theme: 'light', loading: false } },
+      { key: 'settings', storage, throttleMs: 0, include: ['theme'] }
+    );
+
+    store.setState({ theme: 'dark', loading: true });
+
+    expect(JSON.parse(storage.data.get('settings')!)).toEqual({ theme: 'dark', __version: 1 });
+  });
+
+  it('should leave out excluded keys when saving and loading', () => {
+    const storage = createMemoryStorage({
+      session: JSON.stringify({ user: 'ada', token: 'old', __version: 1 })
+    });
+    const store = createPersistedStore(
+      { initialState: { user: '', token: '' } },
+      { key: 'session', storage, throttleMs: 0, exclude: ['token'] }
+    );
+
+    expect(store.getState()).toEqual({ user: 'ada', token: '' });
+
+    store.setState({ user: 'grace', token: 'secret' });
+    expect(JSON.parse(storage.data.get('session')!)).toEqual({ user: 'grace', __version: 1 });
+  });
+
+  it('should persist what partialize returns', () => {
+    const storage = createMemoryStorage();
+    const store = createPersistedStore(
+      { initialState: { todos: ['a'], modalOpen: false } },
+      { key: 'todos', storage, throttleMs: 0, partialize: state => ({ todos: state.todos }) }
+    );
+
+    store.setState({ todos: ['a', 'b'] });
+
+    expect(JSON.parse(storage.data.get('todos')!)).toEqual({ todos: ['a', 'b'], __version: 1 });
+  });
+
+  it('should skip saving when only non-persisted fields change', () => {
+    const storage = createMemoryStorage();
+    const setItem = jest.spyOn(storage, 'setItem');
+    const store = createPersistedStore(
+      { initialState: { theme: 'light', loading: false } },
+      { key: 'settings', storage, throttleMs: 0, exclude: ['loading'] }
+    );
+
+    store.setState({ loading: true });
+    store.setState({ loading: false });
+    expect(setItem).not.toHaveBeenCalled();
+
+    store.setState({ theme: 'dark' });
+    expect(setItem).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not write hydrated values back to async storage', async () => {
+    const storage = createAsyncMemoryStorage({ settings: JSON.stringify({ theme: 'dark', __version: 1 }) });
+    const setItem = jest.spyOn(storage, 'setItem');
+    const store = createPersistedStore(
+      { initialState: { theme: 'light' } },
+      { key: 'settings', storage, throttleMs: 0 }
+    );
+
+    await store.ready();
+
+    expect(store.getState()).toEqual({ theme: 'dark' });
+    expect(setItem).not.toHaveBeenCalled();
+  });
+});
+
+describe('createIndexedDBStorage', () => {
+  it('should read, write and remove values', async () => {
+    const storage = createIndexedDBStorage({ indexedDB: createFakeIndexedDB() });
+
+    expect(await storage.getItem('missing')).toBeNull();
+
+    await storage.setItem('settings', '{"theme":"dark"}');
+    expect(await storage.getItem('settings')).toBe('{"theme":"dark"}');
+
+    await storage.removeItem('settings');
+    expect(await storage.getItem('settings')).toBeNull();
+  });
+
+  it('should hydrate a persisted store', async () => {
+    const indexedDB = createFakeIndexedDB();
+    await createIndexedDBStorage({ indexedDB }).setItem('todos', JSON.stringify({ items: ['a'], __version: 1 }));
+
+    const store = createPersistedStore(
+      { initialState: { items: [] as string[] } },
+      { key: 'todos', storage: createIndexedDBStorage({ indexedDB }) }
+    );
+    await store.ready();
+
+    expect(store.getState().items).toEqual(['a']);
+  });
+
+  it('should add its object store to a database another adapter created', async () => {
+    const indexedDB = createFakeIndexedDB();
+    const todos = createIndexedDBStorage({ indexedDB, storeName: 'todos' });
+    const settings = createIndexedDBStorage({ indexedDB, storeName: 'settings' });
+
+    await todos.setItem('key', 'a');
+    await settings.setItem('key', 'b');
+
+    expect(await todos.getItem('key')).toBe('a');
+    expect(await settings.getItem('key')).toBe('b');
+  });
+
+  it('should reject when IndexedDB is unavailable', async () => {
+    const storage = createIndexedDBStorage();
+    await expect(storage.getItem('key')).rejects.toThrow('indexedDB is not available');
+  });
+});
@@ -0,0 +1,134 @@
+import { produce } from '../utils/produce';
+import { createStore } from '../state/store';
+
+interface Todo {
+  id: number;
+  text: string;
+  done: boolean;
+}
+
+function createState() {
+  return {
+    todos: [
+      { id: 1, text: 'a', done: false },
+      { id: 2, text: 'b', done: false }
+    ] as Todo[],
+    user: { profile: { name: 'Ada' }, settings: { theme: 'light' } }
+  };
+}
+
+describe('produce', () => {
+  it('should return the base when nothing changes', () => {
+    const base = createState();
+    expect(produce(base, draft => { void draft.todos[0].done; })).toBe(base);
+  });
+
+  it('should copy only the changed path', () => {
+    const base = createState();
+    const next = produce(base, draft => {
+      draft.todos[1].done = true;
+    });
+
+    expect(next).not.toBe(base);
+    expect(next.todos).not.toBe(base.todos);
+    expect(next.todos[1]).toEqual({ id: 2, text: 'b', done: true });
+    expect(next.todos[0]).toBe(base.todos[0]);
+    expect(next.user).toBe(base.user);
+    expect(base.todos[1].done).toBe(false);
+  });
+
+  it('should support array methods', () => {
+    const base = createState();
+    const next = produce(base, draft => {
+      draft.todos.push({ id: 3, text: 'c', done: false });
+      draft.todos.splice(0, 1);
+    });
+
+    expect(next.todos.map(t => t.id)).toEqual([2, 3]);
+    expect(Array.isArray(next.todos)).toBe(true);
+    expect(base.todos).toHaveLength(2);
+  });
+
+  it('should delete keys', () => {
+    const base: { a: number; b?: number } = { a: 1, b: 2 };
+    const next = produce(base, draft => {
+      delete draft.b;
+    });
+
+    expect(next).toEqual({ a: 1 });
+    expect(base).toEqual({ a: 1, b: 2 });
+  });
+
+  it('should use a returned value', () => {
+    const base = createState();
+    const next = produce(base, draft => ({ ...draft, todos: [] }));
+    expect(next.todos).toEqual([]);
+    expect(next.user).toBe(base.user);
+  });
+
+  it('should not leave drafts in the result', () => {
+    const base = createState();
+    const next = produce(base, draft => {
+      draft.user.settings.theme = 'dark';
+      draft.todos[0].text = 'changed';
+    });
+
+    expect(JSON.parse(JSON.stringify(next))).toEqual(next);
+    expect(next.user.profile).toBe(base.user.profile);
+    expect(next.user.settings.theme).toBe('dark');
+  });
+
+  it('should finalize drafts held by filter and map results', () => {
+    const base = createState();
+    const next = produce(base, draft => {
+      draft.todos[1].done = true;
+      draft.todos = draft.todos.filter(t => !t.done);
+    });
+    const mapped = produce(base, draft => {
+      draft.todos = draft.todos.map(t => (t.id === 1 ? t : { ...t, text: 'B' }));
+    });
+
+    expect(structuredClone(next)).toEqual({ ...base, todos: [base.todos[0]] });
+    expect(next.todos[0]).toBe(base.todos[0]);
+    expect(structuredClone(mapped).todos).toEqual([base.todos[0], { id: 2, text: 'B', done: false }]);
+    expect(mapped.todos[0]).toBe(base.todos[0]);
+  });
+
+  it('should finalize drafts nested in new objects', () => {
+    const base: { a: { n: number }; c?: { inner: { n: number } } } = { a: { n: 1 } };
+    const next = produce(base, draft => {
+      draft.a.n = 2;
+      draft.c = { inner: draft.a };
+    });
+
+    expect(structuredClone(next)).toEqual({ a: { n: 2 }, c: { inner: { n: 2 } } });
+    expect(next.c!.inner).toBe(next.a);
+  });
+});
+
+describe('Store produce', () => {
+  it('should update nested state through a draft', () => {
+    const store = createStore({ initialState: createState() });
+    const listener = jest.fn();
+    store.subscribe(listener);
+    const prev = store.getState();
+
+    store.produce(draft => {
+      draft.todos[0].done = true;
+    });
+
+    expect(store.getState().todos[0].done).toBe(true);
+    expect(store.getState().user).toBe(prev.user);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should skip notifying when the draft is untouched', () => {
+    const store = createStore({ initialState: createState() });
+    const listener = jest.fn();
+    store.subscribe(listener);
+
+    store.produce(() => {});
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,100 @@
+import { createStore } from '../state/store';
+import { createProfiler } from '../state/profile';
+import { batch } from '../state/batch';
+
+function busyWait(ms: number): void {
+  const end = Date.now() + ms;
+  while (Date.now() < end) {
+    // spin
+  }
+}
+
+describe('Store profiling', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should return null when profiling is off', () => {
+    const store = createStore({ initialState: { count: 0 } });
+    expect(store.getProfile()).toBeNull();
+  });
+
+  it('should count updates, notifications and listener calls', () => {
+    const store = createStore({ initialState: { count: 0 }, profile: true });
+    store.subscribe(function renderCounter() {});
+
+    store.setState({ count: 1 });
+    batch(() => {
+      store.setState({ count: 2 });
+      store.setState({ count: 3 });
+    });
+
+    const profile = store.getProfile()!;
+    expect(profile.updates).toBe(3);
+    expect(profile.notifications).toBe(2);
+    expect(profile.listeners).toEqual([
+      expect.objectContaining({ name: 'renderCounter', calls: 2, overBudget: 0 })
+    ]);
+  });
+
+  it('should warn once when a listener goes over budget', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const store = createStore({ name: 'slow', initialState: { count: 0 }, profile: { budget: 1 } });
+    store.subscribe(function slowListener() {
+      busyWait(3);
+    });
+
+    store.setState({ count: 1 });
+    store.setState({ count: 2 });
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('[Store:slow] Listener "slowListener" took'));
+
+    const [listener] = store.getProfile()!.listeners;
+    expect(listener.overBudget).toBe(2);
+    expect(listener.maxTime).toBeGreaterThan(1);
+  });
+
+  it('should attribute work to setState call sites', () => {
+    const store = createStore({ initialState: { count: 0 }, profile: true });
+    store.subscribe(() => busyWait(2));
+
+    function incrementFromTest() {
+      store.setState(prev => ({ count: prev.count + 1 }));
+    }
+    incrementFromTest();
+    incrementFromTest();
+
+    const [site] = store.getProfile()!.callSites;
+    expect(site.site).toContain('incrementFromTest');
+    expect(site.site).toContain('profile.test.ts');
+    expect(site.updates).toBe(2);
+    expect(site.notifyTime).toBeGreaterThan(0);
+  });
+
+  it('should find call sites when app and library share a file', () => {
+    // As in a minified bundle: the store method and its caller live side by
+    // side, and the method's function has been renamed
+    const profiler = createProfiler('bundled');
+    const bundledStore = {
+      setState: function a() {
+        profiler.recordUpdate();
+      }
+    };
+    function saveFromApp() {
+      bundledStore.setState();
+    }
+
+    saveFromApp();
+
+    expect(profiler.getProfile().callSites[0].site).toContain('saveFromApp');
+  });
+
+  it('should skip call sites when disabled', () => {
+    const store = createStore({ initialState: { count: 0 }, profile: { callSites: false } });
+    store.setState({ count: 1 });
+
+    expect(store.getProfile()!.callSites).toEqual([]);
+    expect(store.getProfile()!.updates).toBe(1);
+  });
+});
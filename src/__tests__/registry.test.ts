@@ -0,0 +1,63 @@
+import { createStore } from '../state/store';
+import {
+  enableStoreRegistry,
+  disableStoreRegistry,
+  getRegisteredStores,
+  snapshotAll,
+  restoreAll,
+  onStoreRegistryChange
+} from '../state/registry';
+
+describe('Store registry', () => {
+  beforeEach(() => {
+    enableStoreRegistry();
+  });
+
+  afterEach(() => {
+    disableStoreRegistry();
+  });
+
+  it('should not track stores unless enabled', () => {
+    disableStoreRegistry();
+    createStore({ initialState: { count: 0 }, name: 'counter' });
+
+    expect(getRegisteredStores().size).toBe(0);
+  });
+
+  it('should track named stores until destroyed', () => {
+    const store = createStore({ initialState: { count: 0 }, name: 'counter' });
+    createStore({ initialState: { count: 0 } });
+
+    expect(getRegisteredStores().get('counter')).toBe(store);
+    expect(getRegisteredStores().size).toBe(1);
+
+    store.destroy();
+    expect(getRegisteredStores().has('counter')).toBe(false);
+  });
+
+  it('should snapshot and restore every store', () => {
+    const counter = createStore({ initialState: { count: 0 }, name: 'counter' });
+    const user = createStore({ initialState: { name: 'Ada' }, name: 'user' });
+    const snapshot = snapshotAll();
+
+    counter.setState({ count: 5 });
+    user.setState({ name: 'Grace' });
+    restoreAll(snapshot);
+
+    expect(snapshot).toEqual({ counter: { count: 0 }, user: { name: 'Ada' } });
+    expect(counter.getState()).toEqual({ count: 0 });
+    expect(user.getState()).toEqual({ name: 'Ada' });
+  });
+
+  it('should emit created and destroyed events', () => {
+    const listener = jest.fn();
+    const unsubscribe = onStoreRegistryChange(listener);
+
+    const store = createStore({ initialState: { count: 0 }, name: 'counter' });
+    store.destroy();
+    unsubscribe();
+
+    expect(listener).toHaveBeenNthCalledWith(1, { type: 'created', name: 'counter', store });
+    expect(listener).toHaveBeenNthCalledWith(2, { type: 'destroyed', name: 'counter', store });
+  });
+});
@@ -0,0 +1,140 @@
+import { createElement } from 'react';
+import { renderToString } from 'react-dom/server';
+import { createStore, type Store } from '../state/store';
+import { createDerivedStore } from '../state/derived';
+import { enableStoreRegistry, disableStoreRegistry, getRegisteredStores } from '../state/registry';
+import { createSlice } from '../state/slice';
+import { withHistory } from '../state/history';
+import { createStoreScope } from '../state/scope';
+import { StoreProvider } from '../state/provider';
+import { useStore } from '../state/hooks';
+
+describe('Store scope', () => {
+  it('should create fresh instances per scope', () => {
+    const counter = createStore({ initialState: { count: 0 }, name: 'counter' });
+    const first = createStoreScope();
+    const second = createStoreScope();
+
+    first.get(counter).setState({ count: 1 });
+
+    expect(first.get(counter).getState().count).toBe(1);
+    expect(second.get(counter).getState().count).toBe(0);
+    expect(counter.getState().count).toBe(0);
+    expect(first.get(counter)).toBe(first.get(counter));
+  });
+
+  it('should seed from the original initial state, not the shared instance', () => {
+    const counter = createStore({ initialState: { count: 0 }, name: 'counter' });
+    counter.setState({ count: 9 });
+
+    expect(createStoreScope().get(counter).getState().count).toBe(0);
+  });
+
+  it('should dehydrate and hydrate by store name', () => {
+    const counter = createStore({ initialState: { count: 0 }, name: 'counter' });
+    const server = createStoreScope();
+    server.get(counter).setState({ count: 5 });
+
+    const payload = JSON.parse(JSON.stringify(server.dehydrate()));
+    const client = createStoreScope(payload);
+
+    expect(payload).toEqual({ counter: { count: 5 } });
+    expect(client.get(counter).getState().count).toBe(5);
+  });
+
+  it('should hydrate existing instances', () => {
+    const counter = createStore({ initialState: { count: 0 }, name: 'counter' });
+    const scope = createStoreScope();
+    const instance = scope.get(counter);
+
+    scope.hydrate({ counter: { count: 3 } });
+
+    expect(instance.getState().count).toBe(3);
+  });
+
+  it('should keep slice and history features in scoped instances', () => {
+    const slice = createSlice({
+      name: 'counter',
+      initialState: { count: 0 },
+      reducers: { increment: state => ({ count: state.count + 1 }) }
+    });
+    const editor = withHistory(createStore({ initialState: { text: '' }, name: 'editor' }));
+    const scope = createStoreScope();
+
+    const scopedSlice = scope.get(slice.store);
+    scopedSlice.dispatch(slice.actions.increment());
+    const scopedEditor = scope.get(editor);
+    scopedEditor.setState({ text: 'a' });
+    scopedEditor.undo();
+
+    expect(scopedSlice.getState().count).toBe(1);
+    expect(scopedEditor.getState().text).toBe('');
+  });
+
+  it('should destroy scoped instances', () => {
+    const counter = createStore({ initialState: { count: 0 }, name: 'counter' });
+    const scope = createStoreScope();
+    const instance = scope.get(counter);
+
+    scope.destroy();
+
+    expect(() => instance.getState()).toThrow();
+    expect(() => counter.getState()).not.toThrow();
+  });
+
+  it('should render from the scoped instance on the server', () => {
+    const counter = createStore({ initialState: { count: 0 }, name: 'counter' });
+    const scope = createStoreScope({ counter: { count: 7 } });
+
+    function Counter() {
+      const count = useStore(counter, s => s.count);
+      return createElement('span', null, count);
+    }
+
+    const html = renderToString(createElement(StoreProvider, { scope }, createElement(Counter)));
+
+    expect(html).toBe('<span>7</span>');
+    expect(scope.dehydrate()).toEqual({ counter: { count: 7 } });
+  });
+
+  it('should compute derived stores from the scoped sources', () => {
+    const base = createStore({ initialState: { n: 1 }, name: 'base' });
+    const doubled = createDerivedStore([base], state => state.n * 2);
+    const scope = createStoreScope({ base: { n: 5 } });
+
+    const scoped = scope.get(doubled);
+
+    expect(scoped).not.toBe(doubled);
+    expect(scoped.getState()).toBe(10);
+    scope.get(base).setState({ n: 6 });
+    expect(scoped.getState()).toBe(12);
+    expect(doubled.getState()).toBe(2);
+    expect(scope.dehydrate()).toEqual({ base: { n: 6 } });
+  });
+
+  it('should warn once about a store it cannot scope', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const plain = { getState: () => ({}) } as Store<any>;
+    const scope = createStoreScope();
+
+    expect(scope.get(plain)).toBe(plain);
+    expect(scope.get(plain)).toBe(plain);
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+
+  it('should keep scoped instances out of the registry', () => {
+    enableStoreRegistry();
+    const warn = jest.spyOn(console, 'warn');
+    const counter = createStore({ initialState: { count: 0 }, name: 'counter' });
+    const scope = createStoreScope();
+
+    scope.get(counter);
+    scope.destroy();
+
+    expect(getRegisteredStores().get('counter')).toBe(counter);
+    expect(warn).not.toHaveBeenCalled();
+    warn.mockRestore();
+    disableStoreRegistry();
+  });
+});
@@ -0,0 +1,103 @@
+import { createStore } from '../state/store';
+import { createSelector, createParameterizedSelector } from '../state/selector';
+import { shallowEqual } from '../utils/equality';
+
+interface Todo {
+  id: number;
+  done: boolean;
+}
+
+interface State {
+  todos: Todo[];
+  filter: 'all' | 'done';
+  other: number;
+}
+
+const initialState: State = {
+  todos: [{ id: 1, done: false }, { id: 2, done: true }],
+  filter: 'done',
+  other: 0
+};
+
+describe('createSelector', () => {
+  const selectVisible = () => createSelector(
+    [(s: State) => s.todos, (s: State) => s.filter],
+    (todos, filter) => filter === 'all' ? todos : todos.filter(t => t.done)
+  );
+
+  it('should recompute only when inputs change', () => {
+    const selector = selectVisible();
+    const first = selector(initialState);
+
+    const second = selector({ ...initialState, other: 1 });
+
+    expect(second).toBe(first);
+    expect(selector.recomputations()).toBe(1);
+
+    selector({ ...initialState, filter: 'all' });
+    expect(selector.recomputations()).toBe(2);
+  });
+
+  it('should keep the previous result when resultEqualityFn matches', () => {
+    const selector = createSelector(
+      [(s: State) => s.todos],
+      todos => todos.map(t => t.id),
+      { resultEqualityFn: shallowEqual }
+    );
+    const first = selector(initialState);
+
+    const second = selector({ ...initialState, todos: [...initialState.todos] });
+
+    expect(second).toBe(first);
+  });
+
+  it('should return stable derived arrays through store.select', () => {
+    const store = createStore({ initialState });
+    const selector = selectVisible();
+    const first = store.select(selector);
+
+    store.setState({ other: 1 });
+
+    expect(store.select(selector)).toBe(first);
+    expect(selector.recomputations()).toBe(1);
+  });
+});
+
+describe('createParameterizedSelector', () => {
+  const selectTodoById = createParameterizedSelector(
+    [(s: State) => s.todos, (_s: State, id: number) => id],
+    (todos, id) => todos.find(t => t.id === id)
+  );
+
+  it('should return the same selector per argument', () => {
+    expect(selectTodoById(1)).toBe(selectTodoById(1));
+    expect(selectTodoById(1)).not.toBe(selectTodoById(2));
+  });
+
+  it('should select by argument', () => {
+    expect(selectTodoById(2)(initialState)).toEqual({ id: 2, done: true });
+  });
+
+  it('should memoize each argument independently', () => {
+    const store = createStore({ initialState });
+    const first = store.select(selectTodoById(1));
+    store.select(selectTodoById(2));
+
+    store.setState({ other: 1 });
+
+    expect(store.select(selectTodoById(1))).toBe(first);
+    expect(selectTodoById(1).recomputations()).toBe(1);
+  });
+
+  it('should evict the least recently used argument', () => {
+    const selectById = createParameterizedSelector(
+      [(s: State, id: number) => s.todos[id]],
+      todo => todo,
+      { maxSize: 1 }
+    );
+    const first = selectById(0);
+    selectById(1);
+
+    expect(selectById(0)).not.toBe(first);
+  });
+});
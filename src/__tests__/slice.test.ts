@@ -0,0 +1,65 @@
+import { createSlice, type PayloadAction } from '../state/slice';
+
+function createCounterSlice() {
+  return createSlice({
+    name: 'counter',
+    initialState: { count: 0, label: 'counter' },
+    reducers: {
+      increment: (state) => ({ count: state.count + 1 }),
+      add: (state, action: PayloadAction<number>) => ({ count: state.count + action.payload }),
+      rename: (state, action: PayloadAction<string>) => ({ ...state, label: action.payload })
+    }
+  });
+}
+
+describe('Slice', () => {
+  it('should create typed action creators', () => {
+    const { actions } = createCounterSlice();
+
+    expect(actions.increment()).toEqual({ type: 'counter/increment', payload: undefined });
+    expect(actions.add(5)).toEqual({ type: 'counter/add', payload: 5 });
+    expect(actions.add.type).toBe('counter/add');
+  });
+
+  it('should dispatch actions to reducers', () => {
+    const { actions, store } = createCounterSlice();
+
+    store.dispatch(actions.increment());
+    store.dispatch(actions.add(4));
+    store.dispatch(actions.rename('clicks'));
+
+    expect(store.getState()).toEqual({ count: 5, label: 'clicks' });
+  });
+
+  it('should ignore unknown actions', () => {
+    const { store } = createCounterSlice();
+    const listener = jest.fn();
+    store.subscribe(listener);
+
+    store.dispatch({ type: 'other/add', payload: 1 });
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(store.getState().count).toBe(0);
+  });
+
+  it('should expose a pure reducer', () => {
+    const { actions, reducer } = createCounterSlice();
+    const state = { count: 1, label: 'counter' };
+
+    expect(reducer(state, actions.add(2))).toEqual({ count: 3, label: 'counter' });
+    expect(reducer(state, { type: 'unknown', payload: null })).toBe(state);
+  });
+
+  it('should pass named actions to middleware', () => {
+    const middleware = jest.fn((_context, next) => next());
+    const { actions, store } = createCounterSlice();
+    store.use(middleware);
+
+    store.dispatch(actions.add(2));
+
+    expect(middleware).toHaveBeenCalledWith(
+      expect.objectContaining({ action: { type: 'counter/add', payload: 2 } }),
+      expect.any(Function)
+    );
+  });
+});
@@ -1,5 +1,6 @@
 import { createStore } from '../state/store';
-import { batch } from '../state/batch';
+import { batch, setBatchScheduler } from '../state/batch';
+import { shallowEqual } from '../utils/equality';
 
 describe('Store', () => {
   it('should create store with initial state', () => {
@@ -37,7 +38,8 @@ describe('Store', () => {
     
     expect(listener).toHaveBeenCalledWith(
       { count: 1 },
-      { count: 0 }
+      { count: 0 },
+      { mode: 'merge' }
     );
   });
 
@@ -82,7 +84,7 @@ describe('Store', () => {
     
     // Should have batched into a single call
     expect(listener).toHaveBeenCalledTimes(1);
-    expect(listener).toHaveBeenCalledWith({ count: 3 }, { count: 0 });
+    expect(listener).toHaveBeenCalledWith({ count: 3 }, { count: 0 }, { mode: 'merge' });
     expect(store.getState().count).toBe(3);
   });
 
@@ -119,7 +121,7 @@ describe('Batch', () => {
     
     // Should have batched the updates
     expect(listener).toHaveBeenCalledTimes(1);
-    expect(listener).toHaveBeenCalledWith({ count: 2 }, { count: 0 });
+    expect(listener).toHaveBeenCalledWith({ count: 2 }, { count: 0 }, { mode: 'merge' });
     expect(store.getState().count).toBe(2);
   });
 
@@ -138,7 +140,396 @@ describe('Batch', () => {
     
     // Should have batched all updates
     expect(listener).toHaveBeenCalledTimes(1);
-    expect(listener).toHaveBeenCalledWith({ count: 3 }, { count: 0 });
+    expect(listener).toHaveBeenCalledWith({ count: 3 }, { count: 0 }, { mode: 'merge' });
     expect(store.getState().count).toBe(3);
   });
-});
\ No newline at end of file
+});
+
+describe('Notification scheduling', () => {
+  afterEach(() => {
+    setBatchScheduler('sync');
+  });
+
+  it('should coalesce updates made in the same tick', async () => {
+    const store = createStore({ initialState: { count: 0 }, scheduler: 'microtask' });
+    const listener = jest.fn();
+    store.subscribe(listener);
+
+    store.setState({ count: 1 });
+    store.setState({ count: 2 });
+
+    expect(store.getState().count).toBe(2);
+    expect(listener).not.toHaveBeenCalled();
+
+    await Promise.resolve();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ count: 2 }, { count: 0 }, { mode: 'merge' });
+  });
+
+  it('should use the global scheduler when the store has none', async () => {
+    setBatchScheduler('microtask');
+    const store = createStore({ initialState: { count: 0 } });
+    const listener = jest.fn();
+    store.subscribe(listener);
+
+    store.setState({ count: 1 });
+    store.setState({ count: 2 });
+    await Promise.resolve();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should accept a custom scheduler', () => {
+    const flushes: Array<() => void> = [];
+    const store = createStore({
+      initialState: { count: 0 },
+      scheduler: flush => flushes.push(flush)
+    });
+    const listener = jest.fn();
+    store.subscribe(listener);
+
+    store.setState({ count: 1 });
+    store.setState({ count: 2 });
+
+    expect(flushes).toHaveLength(1);
+    flushes[0]();
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(store.getState().count).toBe(2);
+  });
+
+  it('should fall back to a microtask without requestAnimationFrame', async () => {
+    const store = createStore({ initialState: { count: 0 }, scheduler: 'animationFrame' });
+    const listener = jest.fn();
+    store.subscribe(listener);
+
+    store.setState({ count: 1 });
+    await Promise.resolve();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should still flush at the end of a batch', () => {
+    const store = createStore({ initialState: { count: 0 }, scheduler: 'microtask' });
+    const listener = jest.fn();
+    store.subscribe(listener);
+
+    batch(() => {
+      store.setState({ count: 1 });
+    });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('Middleware', () => {
+  it('should see previous, proposed state and updater', () => {
+    const middleware = jest.fn((_context, next) => next());
+    const store = createStore({ initialState: { count: 0 }, middleware: [middleware] });
+    const updater = { count: 1 };
+
+    store.setState(updater);
+
+    expect(middleware).toHaveBeenCalledWith(
+      expect.objectContaining({ prevState: { count: 0 }, nextState: { count: 1 }, updater, store }),
+      expect.any(Function)
+    );
+    expect(store.getState().count).toBe(1);
+  });
+
+  it('should transform updates', () => {
+    const store = createStore({
+      initialState: { count: 0 },
+      middleware: [
+        (context, next) => next({ count: Math.min(context.nextState.count, 10) })
+      ]
+    });
+
+    store.setState({ count: 50 });
+    expect(store.getState().count).toBe(10);
+  });
+
+  it('should veto updates', () => {
+    const listener = jest.fn();
+    const store = createStore<{ count: number }>({
+      initialState: { count: 0 },
+      middleware: [(context, next) => {
+        if (context.nextState.count >= 0) next();
+      }]
+    });
+    store.subscribe(listener);
+
+    store.setState({ count: -1 });
+
+    expect(store.getState().count).toBe(0);
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should defer updates', () => {
+    let release: (() => void) | null = null;
+    const store = createStore({
+      initialState: { count: 0 },
+      middleware: [(_context, next) => {
+        release = () => next();
+      }]
+    });
+
+    store.setState({ count: 1 });
+    expect(store.getState().count).toBe(0);
+
+    release!();
+    expect(store.getState().count).toBe(1);
+  });
+
+  it('should run middleware in order', () => {
+    const calls: string[] = [];
+    const store = createStore({
+      initialState: { count: 0 },
+      middleware: [
+        (_context, next) => { calls.push('a'); next(); },
+        (_context, next) => { calls.push('b'); next(); }
+      ]
+    });
+
+    store.setState({ count: 1 });
+    expect(calls).toEqual(['a', 'b']);
+  });
+
+  it('should attach and tear down middleware added with use', () => {
+    const teardown = jest.fn();
+    const middleware = Object.assign(
+      jest.fn((_context, next) => next()),
+      { attach: jest.fn(() => teardown) }
+    );
+    const store = createStore({ initialState: { count: 0 } });
+
+    const remove = store.use(middleware);
+    expect(middleware.attach).toHaveBeenCalledWith(store);
+
+    store.setState({ count: 1 });
+    expect(middleware).toHaveBeenCalledTimes(1);
+
+    remove();
+    expect(teardown).toHaveBeenCalledTimes(1);
+
+    store.setState({ count: 2 });
+    expect(middleware).toHaveBeenCalledTimes(1);
+  });
+
+  it('should tear down middleware on destroy', () => {
+    const teardown = jest.fn();
+    const middleware = Object.assign(
+      (_context: any, next: () => void) => next(),
+      { attach: () => teardown }
+    );
+    const store = createStore({ initialState: { count: 0 }, middleware: [middleware] });
+
+    store.destroy();
+    expect(teardown).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('Scoped subscriptions', () => {
+  function setup() {
+    return createStore({
+      initialState: {
+        user: { profile: { name: 'Ada' }, settings: { theme: 'light' } },
+        count: 0
+      }
+    });
+  }
+
+  it('should notify path listeners only when the path changes', () => {
+    const store = setup();
+    const listener = jest.fn();
+    store.subscribe('user.profile', listener);
+
+    store.setState({ count: 1 });
+    expect(listener).not.toHaveBeenCalled();
+
+    const prevProfile = store.getState().user.profile;
+    store.setState(prev => ({ user: { ...prev.user, profile: { name: 'Grace' } } }));
+    expect(listener).toHaveBeenCalledWith({ name: 'Grace' }, prevProfile, { mode: 'merge' });
+  });
+
+  it('should unsubscribe path listeners', () => {
+    const store = setup();
+    const listener = jest.fn();
+    const unsubscribe = store.subscribe('count', listener);
+    expect(store.getListenerCount()).toBe(1);
+
+    unsubscribe();
+    store.setState({ count: 1 });
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(store.getListenerCount()).toBe(0);
+  });
+
+  it('should notify selector listeners when the selection changes', () => {
+    const store = setup();
+    const listener = jest.fn();
+    store.subscribeTo(s => s.count > 1, listener);
+
+    store.setState({ count: 1 });
+    expect(listener).not.toHaveBeenCalled();
+
+    store.setState({ count: 2 });
+    expect(listener).toHaveBeenCalledWith(true, false, { mode: 'merge' });
+  });
+
+  it('should use the selector equality function', () => {
+    const store = setup();
+    const listener = jest.fn();
+    store.subscribeTo(s => ({ theme: s.user.settings.theme }), listener, shallowEqual);
+
+    store.setState({ count: 1 });
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should report a throwing selector without breaking the write', () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const store = createStore<{ user: { name: string } | null }>({ initialState: { user: { name: 'Ada' } } });
+    const listener = jest.fn();
+    store.subscribeTo(s => s.user!.name, jest.fn());
+    store.subscribeTo(s => s.user, listener);
+
+    expect(() => store.setState({ user: null })).not.toThrow();
+
+    expect(store.getState().user).toBeNull();
+    expect(listener).toHaveBeenCalledWith(null, { name: 'Ada' }, { mode: 'merge' });
+    expect(error).toHaveBeenCalledWith('[Store:unnamed] Listener error:', expect.any(TypeError));
+    error.mockRestore();
+  });
+});
+
+describe('Lazy and async initialization', () => {
+  it('should call a factory for the initial state', () => {
+    const factory = jest.fn(() => ({ count: 1 }));
+    const store = createStore({ initialState: factory });
+
+    expect(factory).toHaveBeenCalledTimes(1);
+    expect(store.getState()).toEqual({ count: 1 });
+    expect(store.getStatus()).toBe('ready');
+  });
+
+  it('should load an async initial state', async () => {
+    const store = createStore({
+      initialState: async () => ({ count: 5 }),
+      placeholder: { count: 0 }
+    });
+    const listener = jest.fn();
+    store.subscribe(listener);
+
+    expect(store.getStatus()).toBe('loading');
+    expect(store.getState()).toEqual({ count: 0 });
+
+    await store.ready();
+
+    expect(store.getStatus()).toBe('ready');
+    expect(store.getState()).toEqual({ count: 5 });
+    expect(listener).toHaveBeenCalledWith({ count: 5 }, { count: 0 }, { mode: 'replace' });
+  });
+
+  it('should report a failed load', async () => {
+    const error = new Error('offline');
+    const store = createStore<{ count: number }>({
+      initialState: () => Promise.reject(error),
+      placeholder: { count: 0 }
+    });
+
+    await expect(store.ready()).rejects.toBe(error);
+    expect(store.getStatus()).toBe('error');
+    expect(store.getError()).toBe(error);
+  });
+
+  it('should keep writes made while loading', async () => {
+    const store = createStore({
+      initialState: async () => ({ theme: 'dark', fontSize: 16 }),
+      placeholder: { theme: 'light', fontSize: 14 }
+    });
+
+    store.setState({ fontSize: 20 });
+    await store.ready();
+
+    expect(store.getState()).toEqual({ theme: 'dark', fontSize: 20 });
+    expect(store.getInitialState()).toEqual({ theme: 'dark', fontSize: 16 });
+  });
+
+  it('should require a placeholder for an async initialState', () => {
+    expect(() => createStore({ initialState: async () => ({ count: 1 }) })).toThrow('placeholder');
+  });
+
+  it('should resolve ready immediately for synchronous stores', async () => {
+    const store = createStore({ initialState: { count: 0 } });
+    await expect(store.ready()).resolves.toBeUndefined();
+  });
+});
+
+describe('Replace and reset', () => {
+  it('should replace the state instead of merging', () => {
+    const store = createStore<{ count: number; extra?: string }>({
+      initialState: { count: 0, extra: 'x' }
+    });
+    const listener = jest.fn();
+    store.subscribe(listener);
+
+    store.replaceState({ count: 1 });
+
+    expect(store.getState()).toEqual({ count: 1 });
+    expect(listener).toHaveBeenCalledWith({ count: 1 }, { count: 0, extra: 'x' }, { mode: 'replace' });
+  });
+
+  it('should pass the mode to middleware', () => {
+    const middleware = jest.fn((_context, next) => next());
+    const store = createStore({ initialState: { count: 0 }, middleware: [middleware] });
+
+    store.replaceState({ count: 1 }, { type: 'load' });
+
+    expect(middleware).toHaveBeenCalledWith(
+      expect.objectContaining({ mode: 'replace', action: { type: 'load' } }),
+      expect.any(Function)
+    );
+  });
+
+  it('should reset to the initial state', () => {
+    const store = createStore({ initialState: () => ({ count: 0 }) });
+    const listener = jest.fn();
+
+    store.setState({ count: 4 });
+    store.subscribe(listener);
+    store.reset();
+
+    expect(store.getState()).toBe(store.getInitialState());
+    expect(store.getState()).toEqual({ count: 0 });
+    expect(listener).toHaveBeenCalledWith({ count: 0 }, { count: 4 }, { mode: 'reset' });
+  });
+
+  it('should report the strongest mode in a batch', () => {
+    const store = createStore({ initialState: { count: 0 } });
+    const listener = jest.fn();
+    store.setState({ count: 4 });
+    store.subscribe(listener);
+
+    batch(() => {
+      store.reset();
+      store.setState({ count: 1 });
+    });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ count: 1 }, { count: 4 }, { mode: 'reset' });
+  });
+
+  it('should use the loaded state as the initial state', async () => {
+    const store = createStore({
+      initialState: () => Promise.resolve({ count: 5 }),
+      placeholder: { count: 0 }
+    });
+    await store.ready();
+
+    store.setState({ count: 9 });
+    store.reset();
+
+    expect(store.getState()).toEqual({ count: 5 });
+    expect(store.getInitialState()).toEqual({ count: 5 });
+  });
+});
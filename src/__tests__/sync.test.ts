@@ -0,0 +1,115 @@
+import { createStore } from '../state/store';
+import { syncAcrossTabs } from '../state/sync';
+
+// In-memory BroadcastChannel: delivers to every other instance with the same name
+class MemoryChannel {
+  static channels = new Set<MemoryChannel>();
+  static sent: any[] = [];
+  onmessage: ((event: { data: any }) => void) | null = null;
+
+  constructor(public name: string) {
+    MemoryChannel.channels.add(this);
+  }
+
+  postMessage(data: any) {
+    MemoryChannel.sent.push(data);
+    MemoryChannel.channels.forEach(channel => {
+      if (channel !== this && channel.name === this.name) {
+        channel.onmessage?.({ data: structuredClone(data) });
+      }
+    });
+  }
+
+  close() {
+    MemoryChannel.channels.delete(this);
+  }
+}
+
+describe('syncAcrossTabs', () => {
+  beforeEach(() => {
+    (globalThis as any).BroadcastChannel = MemoryChannel;
+    MemoryChannel.channels.clear();
+    MemoryChannel.sent = [];
+  });
+
+  afterEach(() => {
+    delete (globalThis as any).BroadcastChannel;
+  });
+
+  function createTab() {
+    return createStore({ initialState: { theme: 'light', loggedIn: true, draft: '' } });
+  }
+
+  it('should apply changes from other tabs', () => {
+    const tabA = createTab();
+    const tabB = createTab();
+    syncAcrossTabs(tabA, { channel: 'app' });
+    syncAcrossTabs(tabB, { channel: 'app' });
+
+    tabA.setState({ theme: 'dark' });
+
+    expect(tabB.getState().theme).toBe('dark');
+  });
+
+  it('should not echo incoming changes', () => {
+    const tabA = createTab();
+    const tabB = createTab();
+    syncAcrossTabs(tabA, { channel: 'app' });
+    syncAcrossTabs(tabB, { channel: 'app' });
+
+    tabA.setState({ loggedIn: false });
+
+    expect(MemoryChannel.sent).toHaveLength(1);
+    expect(MemoryChannel.sent[0].patch).toEqual({ loggedIn: false });
+  });
+
+  it('should only share included keys', () => {
+    const tabA = createTab();
+    const tabB = createTab();
+    syncAcrossTabs(tabA, { channel: 'app', include: ['theme'] });
+    syncAcrossTabs(tabB, { channel: 'app', include: ['theme'] });
+
+    tabA.setState({ draft: 'hello', theme: 'dark' });
+
+    expect(tabB.getState()).toEqual({ theme: 'dark', loggedIn: true, draft: '' });
+  });
+
+  it('should drop incoming changes older than the local write', () => {
+    const tab = createTab();
+    syncAcrossTabs(tab, { channel: 'app' });
+    const remote = new MemoryChannel('app');
+
+    tab.setState({ theme: 'dark' });
+    remote.postMessage({ source: 'other', timestamp: 0, patch: { theme: 'blue' } });
+
+    expect(tab.getState().theme).toBe('dark');
+  });
+
+  it('should use a custom conflict resolver', () => {
+    const tab = createTab();
+    const conflict = jest.fn((_local, incoming) => ({ ...incoming, theme: 'merged' }));
+    syncAcrossTabs(tab, { channel: 'app', conflict });
+    const remote = new MemoryChannel('app');
+
+    remote.postMessage({ source: 'other', timestamp: 1, patch: { theme: 'dark' } });
+
+    expect(conflict).toHaveBeenCalledWith(
+      expect.objectContaining({ theme: 'light' }),
+      { theme: 'dark' },
+      { localUpdatedAt: 0, remoteUpdatedAt: 1 }
+    );
+    expect(tab.getState().theme).toBe('merged');
+  });
+
+  it('should close the channel on stop and on destroy', () => {
+    const tabA = createTab();
+    const tabB = createTab();
+    const stop = syncAcrossTabs(tabA, { channel: 'app' });
+    syncAcrossTabs(tabB, { channel: 'app' });
+
+    stop();
+    tabB.destroy();
+
+    expect(MemoryChannel.channels.size).toBe(0);
+  });
+});
@@ -0,0 +1,129 @@
+import { createStore } from '../state/store';
+import { createFormControl } from '../forms/control';
+import {
+  createMockStore,
+  waitForState,
+  flushBatches,
+  driveFormControl,
+  mockHttpClient
+} from '../testing';
+
+describe('createMockStore', () => {
+  it('should record updates with their actions and mode', () => {
+    const store = createMockStore({ count: 0, label: 'a' });
+
+    store.setState({ count: 1 }, { type: 'increment' });
+    store.replaceState({ count: 5, label: 'b' });
+
+    expect(store.updates).toEqual([
+      { action: { type: 'increment' }, mode: 'merge', prevState: { count: 0, label: 'a' }, nextState: { count: 1, label: 'a' } },
+      { action: undefined, mode: 'replace', prevState: { count: 1, label: 'a' }, nextState: { count: 5, label: 'b' } }
+    ]);
+    expect(store.getActions()).toEqual([{ type: 'increment' }]);
+
+    store.clearUpdates();
+    expect(store.updates).toHaveLength(0);
+  });
+});
+
+describe('waitForState', () => {
+  it('should resolve once the predicate holds', async () => {
+    const store = createStore({ initialState: { ready: false } });
+    setTimeout(() => store.setState({ ready: true }), 5);
+
+    await expect(waitForState(store, state => state.ready)).resolves.toEqual({ ready: true });
+  });
+
+  it('should reject after the timeout', async () => {
+    const store = createStore({ initialState: { ready: false } });
+
+    await expect(waitForState(store, state => state.ready, 10)).rejects.toThrow('within 10ms');
+    expect(store.getListenerCount()).toBe(0);
+  });
+});
+
+describe('flushBatches', () => {
+  it('should deliver scheduled notifications under fake timers', async () => {
+    jest.useFakeTimers();
+    try {
+      const store = createStore({ initialState: { count: 0 }, scheduler: 'microtask' });
+      const listener = jest.fn();
+      store.subscribe(listener);
+
+      store.setState({ count: 1 });
+      expect(listener).not.toHaveBeenCalled();
+
+      await flushBatches();
+      expect(listener).toHaveBeenCalledTimes(1);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
+
+describe('driveFormControl', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should wait out debounced validation when typing', async () => {
+    const control = createFormControl('', [value => (value.length < 3 ? 'Too short' : null)], 'change');
+    const driver = driveFormControl(control, { advanceTimers: ms => jest.advanceTimersByTime(ms) });
+
+    await driver.type('ab');
+    expect(control.error).toBe('Too short');
+
+    await driver.type('abc');
+    expect(control.error).toBeNull();
+    expect(control.dirty).toBe(true);
+  });
+
+  it('should let timer-based async validators finish on submit', async () => {
+    const taken = (value: string) =>
+      new Promise<string | null>(resolve => setTimeout(() => resolve(value === 'admin' ? 'Taken' : null), 200));
+    const control = createFormControl('admin', [taken], 'submit');
+    const driver = driveFormControl(control, { advanceTimers: ms => jest.advanceTimersByTime(ms) });
+
+    await driver.submit();
+
+    expect(control.touched).toBe(true);
+    expect(control.validating).toBe(false);
+    expect(control.error).toBe('Taken');
+  });
+});
+
+describe('mockHttpClient', () => {
+  it('should record request details', async () => {
+    const client = mockHttpClient({ baseURL: 'https://api.test.com', headers: { 'X-App': 'least' } })
+      .on('POST', '/users', { status: 201, data: { id: 7 } });
+
+    await client.post('/users', { name: 'Ada' }, { params: { notify: true } });
+
+    expect(client.calls).toEqual([
+      expect.objectContaining({
+        method: 'POST',
+        url: 'https://api.test.com/users?notify=true',
+        path: '/users',
+        body: { name: 'Ada' },
+        headers: expect.objectContaining({ 'X-App': 'least' })
+      })
+    ]);
+  });
+
+  it('should prefer later routes and answer the rest with a 404', async () => {
+    const client = mockHttpClient()
+      .on('*', /\/items/, { data: 'any' })
+      .on('GET', '/items', { data: ['a'] });
+
+    await expect(client.get('/items')).resolves.toEqual(expect.objectContaining({ data: ['a'] }));
+    await expect(client.delete('/items')).resolves.toEqual(expect.objectContaining({ data: 'any' }));
+    await expect(client.get('/missing')).rejects.toMatchObject({ status: 404 });
+
+    client.reset();
+    expect(client.calls).toHaveLength(0);
+  });
+});
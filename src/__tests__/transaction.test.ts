@@ -0,0 +1,194 @@
+import { createStore } from '../state/store';
+import { transaction } from '../state/transaction';
+import { setBatchContextStorage, setBatchTimeout, type AsyncContextStorage } from '../state/batch';
+
+const { AsyncLocalStorage } = jest.requireActual<{
+  AsyncLocalStorage: new () => AsyncContextStorage<any>;
+}>('async_hooks');
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+describe('Transaction', () => {
+  afterEach(() => {
+    setBatchContextStorage(null);
+    setBatchTimeout(10000);
+    jest.restoreAllMocks();
+  });
+
+  it('should apply updates with a single notification', () => {
+    const store = createStore({ initialState: { count: 0 } });
+    const listener = jest.fn();
+    store.subscribe(listener);
+
+    const result = store.transaction(() => {
+      store.setState({ count: 1 });
+      store.setState({ count: 2 });
+      return 'done';
+    });
+
+    expect(result).toBe('done');
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ count: 2 }, { count: 0 }, { mode: 'merge' });
+  });
+
+  it('should roll back when fn throws', () => {
+    const store = createStore({ initialState: { count: 0 } });
+    const listener = jest.fn();
+    store.subscribe(listener);
+
+    expect(() => store.transaction(() => {
+      store.setState({ count: 1 });
+      throw new Error('fail');
+    })).toThrow('fail');
+
+    expect(store.getState().count).toBe(0);
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should roll back when the promise rejects', async () => {
+    const store = createStore({ initialState: { count: 0 } });
+    const listener = jest.fn();
+    store.subscribe(listener);
+
+    await expect(store.transaction(async () => {
+      store.setState({ count: 1 });
+      await Promise.resolve();
+      store.setState({ count: 2 });
+      throw new Error('fail');
+    })).rejects.toThrow('fail');
+
+    expect(store.getState().count).toBe(0);
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should send the rollback through middleware', () => {
+    const store = createStore({ initialState: { count: 0 } });
+    const seen: unknown[] = [];
+    store.use((context, next) => {
+      next();
+      seen.push([context.action?.type, context.mode, store.getState()]);
+    });
+
+    expect(() => store.transaction(() => {
+      store.setState({ count: 5 }, { type: 'set' });
+      throw new Error('fail');
+    })).toThrow('fail');
+
+    expect(seen).toEqual([
+      ['set', 'merge', { count: 5 }],
+      ['@@transaction/rollback', 'replace', { count: 0 }]
+    ]);
+  });
+
+  it('should commit async transactions', async () => {
+    const store = createStore({ initialState: { count: 0 } });
+    const listener = jest.fn();
+    store.subscribe(listener);
+
+    await store.transaction(async () => {
+      store.setState({ count: 1 });
+      await Promise.resolve();
+      store.setState({ count: 2 });
+    });
+
+    expect(store.getState().count).toBe(2);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should roll back every store in a cross-store transaction', () => {
+    const a = createStore({ initialState: { value: 'a' } });
+    const b = createStore({ initialState: { value: 'b' } });
+    const listenerA = jest.fn();
+    const listenerB = jest.fn();
+    a.subscribe(listenerA);
+    b.subscribe(listenerB);
+
+    expect(() => transaction([a, b], () => {
+      a.setState({ value: 'a2' });
+      b.setState({ value: 'b2' });
+      throw new Error('fail');
+    })).toThrow('fail');
+
+    expect(a.getState().value).toBe('a');
+    expect(b.getState().value).toBe('b');
+    expect(listenerA).not.toHaveBeenCalled();
+    expect(listenerB).not.toHaveBeenCalled();
+  });
+
+  it('should commit a cross-store transaction', async () => {
+    const a = createStore({ initialState: { value: 'a' } });
+    const b = createStore({ initialState: { value: 'b' } });
+
+    await transaction([a, b], async () => {
+      a.setState({ value: 'a2' });
+      b.setState({ value: 'b2' });
+    });
+
+    expect(a.getState().value).toBe('a2');
+    expect(b.getState().value).toBe('b2');
+  });
+
+  it('should keep holding notifications when the batch times out', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    setBatchTimeout(5);
+    const store = createStore({ initialState: { count: 0 } });
+    const listener = jest.fn();
+    store.subscribe(listener);
+
+    await expect(store.transaction(async () => {
+      store.setState({ count: 1 });
+      await delay(20);
+      throw new Error('fail');
+    })).rejects.toThrow('fail');
+
+    expect(store.getState().count).toBe(0);
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should hold writes from other async flows until it settles', async () => {
+    setBatchContextStorage(new AsyncLocalStorage());
+    const store = createStore({ initialState: { count: 0, other: 0 } });
+    const listener = jest.fn();
+    store.subscribe(listener);
+
+    let release!: () => void;
+    const gate = new Promise<void>(resolve => { release = resolve; });
+    const pending = store.transaction(async () => {
+      store.setState({ count: 1 });
+      await gate;
+      store.setState({ count: 2 });
+    });
+    store.setState({ other: 1 });
+
+    expect(listener).not.toHaveBeenCalled();
+    release();
+    await pending;
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ count: 2, other: 1 }, { count: 0, other: 0 }, { mode: 'merge' });
+  });
+
+  it('should keep writes from other async flows when it rolls back', async () => {
+    setBatchContextStorage(new AsyncLocalStorage());
+    const store = createStore({ initialState: { count: 0, b: 0 } });
+    const listener = jest.fn();
+    store.subscribe(listener);
+
+    let release!: () => void;
+    const gate = new Promise<void>(resolve => { release = resolve; });
+    const pending = store.transaction(async () => {
+      store.setState({ count: 5 });
+      await gate;
+      throw new Error('fail');
+    });
+    store.setState({ b: 42 });
+    release();
+
+    await expect(pending).rejects.toThrow('fail');
+    expect(store.getState()).toEqual({ count: 0, b: 42 });
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ count: 0, b: 42 }, { count: 0, b: 0 }, { mode: 'replace' });
+  });
+});
@@ -0,0 +1,84 @@
+import { createStore } from '../state/store';
+
+describe('Store watch', () => {
+  function setup() {
+    return createStore({ initialState: { filter: 'all', page: 1 } });
+  }
+
+  it('should run the effect when the selection changes', () => {
+    const store = setup();
+    const effect = jest.fn();
+    store.watch(s => s.filter, effect);
+
+    store.setState({ page: 2 });
+    expect(effect).not.toHaveBeenCalled();
+
+    store.setState({ filter: 'done' });
+    expect(effect).toHaveBeenCalledWith('done', 'all', expect.objectContaining({ signal: expect.anything() }));
+  });
+
+  it('should run immediately when requested', () => {
+    const store = setup();
+    const effect = jest.fn();
+
+    store.watch(s => s.filter, effect, { immediate: true });
+
+    expect(effect).toHaveBeenCalledWith('all', undefined, expect.anything());
+  });
+
+  it('should run the cleanup before the next run and on stop', () => {
+    const store = setup();
+    const cleanup = jest.fn();
+    const stop = store.watch(s => s.page, () => cleanup);
+
+    store.setState({ page: 2 });
+    expect(cleanup).not.toHaveBeenCalled();
+
+    store.setState({ page: 3 });
+    expect(cleanup).toHaveBeenCalledTimes(1);
+
+    stop();
+    expect(cleanup).toHaveBeenCalledTimes(2);
+  });
+
+  it('should run the cleanup on destroy', () => {
+    const store = setup();
+    const cleanup = jest.fn();
+    store.watch(s => s.page, () => cleanup, { immediate: true });
+
+    store.destroy();
+
+    expect(cleanup).toHaveBeenCalledTimes(1);
+  });
+
+  it('should abort stale async effects', async () => {
+    const store = setup();
+    const signals: AbortSignal[] = [];
+    const asyncCleanup = jest.fn();
+    store.watch(s => s.filter, async (_value, _prev, { signal }) => {
+      signals.push(signal);
+      await Promise.resolve();
+      return asyncCleanup;
+    });
+
+    store.setState({ filter: 'done' });
+    store.setState({ filter: 'open' });
+    await Promise.resolve();
+    await Promise.resolve();
+
+    expect(signals[0].aborted).toBe(true);
+    expect(signals[1].aborted).toBe(false);
+    // The stale run's cleanup is called as soon as it resolves
+    expect(asyncCleanup).toHaveBeenCalledTimes(1);
+  });
+
+  it('should use the equality function', () => {
+    const store = createStore({ initialState: { ids: [1, 2] } });
+    const effect = jest.fn();
+    store.watch(s => s.ids.length, effect, { equalityFn: (a, b) => a === b });
+
+    store.setState({ ids: [3, 4] });
+
+    expect(effect).not.toHaveBeenCalled();
+  });
+});
@@ -1,3 +1,6 @@
+/** How long 'change' mode waits after the last setValue before validating */
+export const VALIDATION_DEBOUNCE_MS = 300;
+
 type Validator<T = any> = (value: T) => string | null | Promise<string | null>;
 type ValidationMode = 'change' | 'blur' | 'submit';
 type Listener = () => void;
@@ -138,7 +141,7 @@ export function createFormControl<T = any>(
             if (!isDestroyed) {
               validateImmediate();
             }
-          }, 300);
+          }, VALIDATION_DEBOUNCE_MS);
         }
       }
     },
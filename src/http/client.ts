@@ -13,6 +13,8 @@ export interface HttpConfig {
   retries?: number;
   retryDelay?: number;
   validateStatus?: (status: number) => boolean;
+  /** Transport used for requests, defaults to the global fetch */
+  fetch?: typeof fetch;
 }
 
 export interface HttpClient {
@@ -33,7 +35,8 @@ export function createHttpClient(config: HttpConfig = {}): HttpClient {
     headers: defaultHeaders = {},
     retries = 0,
     retryDelay = 1000,
-    validateStatus = (status) => status >= 200 && status < 300
+    validateStatus = (status) => status >= 200 && status < 300,
+    fetch: fetchImpl = (input, init) => fetch(input, init)
   } = config;
 
   const interceptors: HttpInterceptor[] = [];
@@ -88,7 +91,7 @@ export function createHttpClient(config: HttpConfig = {}): HttpClient {
     }
 
     try {
-      const response = await fetch(urlObj.toString(), {
+      const response = await fetchImpl(urlObj.toString(), {
         method: currentRequest.method,
         headers: {
           'Content-Type': 'application/json',
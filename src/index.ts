@@ -1,9 +1,106 @@
 // Core State Management
-export { createStore, type Store, type StoreConfig } from './state/store';
-export { useStore, useStoreSelector } from './state/hooks';
-export { batch, batchAsync } from './state/batch';
-export { createPersistedStore } from './state/persist';
-export { connectDevTools } from './state/devtools';
+export {
+  createStore,
+  type Store,
+  type StoreConfig,
+  type StateUpdater,
+  type StoreAction,
+  type StoreMiddleware,
+  type MiddlewareContext,
+  type UpdateMode,
+  type ChangeInfo
+} from './state/store';
+export {
+  type ProfileOptions,
+  type StoreProfile,
+  type ListenerProfile,
+  type CallSiteProfile
+} from './state/profile';
+export {
+  createSlice,
+  type Slice,
+  type SliceConfig,
+  type SliceStore,
+  type SliceActions,
+  type PayloadAction,
+  type ActionCreator
+} from './state/slice';
+export { createDerivedStore, type DerivedStoreOptions } from './state/derived';
+export { type WatchEffect, type WatchOptions, type WatchContext } from './state/watch';
+export {
+  createAsyncAction,
+  createAsyncState,
+  type AsyncAction,
+  type AsyncState,
+  type AsyncStatus
+} from './state/async';
+export {
+  enableStoreRegistry,
+  disableStoreRegistry,
+  registerStore,
+  unregisterStore,
+  getRegisteredStores,
+  snapshotAll,
+  restoreAll,
+  onStoreRegistryChange,
+  type StoreRegistryEvent
+} from './state/registry';
+export { syncAcrossTabs, type TabSyncOptions, type ConflictInfo } from './state/sync';
+export { withHistory, type HistoryStore, type HistoryOptions } from './state/history';
+export {
+  createSelector,
+  createParameterizedSelector,
+  type MemoizedSelector,
+  type ParameterizedSelector,
+  type SelectorOptions,
+  type ParameterizedSelectorOptions
+} from './state/selector';
+export {
+  useStore,
+  useStoreSelector,
+  useStoreInstance,
+  useStores,
+  type UseStoreOptions
+} from './state/hooks';
+export { createStoreScope, type StoreScope, type DehydratedState } from './state/scope';
+export { StoreProvider, useStoreScope, type StoreProviderProps } from './state/provider';
+export {
+  createStoreContext,
+  type StoreContext,
+  type StoreContextConfig,
+  type StoreContextProviderProps
+} from './state/context';
+export {
+  batch,
+  batchAsync,
+  setBatchScheduler,
+  getBatchScheduler,
+  setBatchContextStorage,
+  setBatchTimeout,
+  type BatchScheduler,
+  type BatchAsyncOptions,
+  type AsyncContextStorage
+} from './state/batch';
+export { transaction } from './state/transaction';
+export {
+  createPersistedStore,
+  persistMiddleware,
+  type PersistConfig,
+  type PersistedStore
+} from './state/persist';
+export {
+  createIndexedDBStorage,
+  type AsyncStorage,
+  type PersistStorage,
+  type IndexedDBStorageOptions
+} from './state/storage';
+export {
+  connectDevTools,
+  devToolsMiddleware,
+  devToolsSerializer,
+  type DevToolsOptions,
+  type DevToolsSerializer
+} from './state/devtools';
 
 // HTTP Client
 export { createHttpClient, type HttpClient, type HttpConfig } from './http/client';
@@ -28,5 +125,6 @@ export { createCache, type Cache, type CacheOptions } from './cache/cache';
 // Utilities
 export { debounce, throttle} from './utils/timing'
 export { memoize } from './utils/memoize';
+export { produce } from './utils/produce';
 export { deepEqual, shallowEqual } from './utils/equality';
-export { isBrowser, isServer, safeStorage, safeSessionStorage } from './utils/env';
+export { isBrowser, isServer, isProduction, safeStorage, safeSessionStorage } from './utils/env';
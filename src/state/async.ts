@@ -0,0 +1,80 @@
+import type { Store } from './store';
+
+export type AsyncStatus = 'idle' | 'pending' | 'success' | 'error';
+
+export interface AsyncState<D> {
+  status: AsyncStatus;
+  data: D | undefined;
+  error: unknown;
+  updatedAt: number | null;
+}
+
+type AsyncKeys<T> = {
+  [K in keyof T]: T[K] extends AsyncState<any> ? K : never;
+}[keyof T];
+
+type AsyncData<S> = S extends AsyncState<infer D> ? D : never;
+
+export interface AsyncAction<A extends any[], D> {
+  /** Resolves with the data, or undefined on error (the error is recorded in the store) */
+  (...args: A): Promise<D | undefined>;
+  reset(): void;
+}
+
+export function createAsyncState<D>(data?: D): AsyncState<D> {
+  return {
+    status: 'idle',
+    data,
+    error: null,
+    updatedAt: null
+  };
+}
+
+/**
+ * Track an async call's status under `key`. Only the latest call writes its
+ * result, so a slow stale response never overwrites a newer one.
+ */
+export function createAsyncAction<
+  T extends object,
+  K extends AsyncKeys<T>,
+  A extends any[]
+>(
+  store: Store<T>,
+  key: K,
+  fn: (...args: A) => Promise<AsyncData<T[K]>>
+): AsyncAction<A, AsyncData<T[K]>> {
+  type D = AsyncData<T[K]>;
+  let latestCall = 0;
+
+  function write(patch: Partial<AsyncState<D>>, type: string): void {
+    store.setState(
+      prev => ({ [key]: { ...(prev[key] as AsyncState<D>), ...patch } }) as Partial<T>,
+      { type: `${String(key)}/${type}`, payload: patch }
+    );
+  }
+
+  const action = (async (...args: A) => {
+    const callId = ++latestCall;
+    write({ status: 'pending', error: null }, 'pending');
+
+    try {
+      const data = await fn(...args);
+      if (callId === latestCall) {
+        write({ status: 'success', data, error: null, updatedAt: Date.now() }, 'success');
+      }
+      return data;
+    } catch (error) {
+      if (callId === latestCall) {
+        write({ status: 'error', error, updatedAt: Date.now() }, 'error');
+      }
+      return undefined;
+    }
+  }) as AsyncAction<A, D>;
+
+  action.reset = () => {
+    latestCall++;
+    write(createAsyncState<D>(), 'reset');
+  };
+
+  return action;
+}
@@ -1,10 +1,173 @@
+import { isProduction } from '../utils/env';
+
+/**
+ * When notifications outside batch() are delivered. Anything other than
+ * 'sync' coalesces every update made before the scheduled flush.
+ */
+export type BatchScheduler =
+  | 'sync'
+  | 'microtask'
+  | 'animationFrame'
+  | ((flush: () => void) => void);
+
 let batchDepth = 0;
 let pendingNotifications = new Set<() => void>();
+let defaultScheduler: BatchScheduler = 'sync';
+const scheduledNotifications = new Map<BatchScheduler, Set<() => void>>();
 
-function flushNotifications(): void {
-  const notifications = Array.from(pendingNotifications);
-  pendingNotifications.clear();
-  notifications.forEach(fn => {
+/**
+ * The subset of AsyncLocalStorage used to tell which async flow an update
+ * belongs to, so overlapping batchAsync calls don't hold each other's
+ * notifications
+ */
+export interface AsyncContextStorage<S> {
+  run<R>(store: S, fn: () => R): R;
+  getStore(): S | undefined;
+}
+
+interface AsyncBatch {
+  pending: Set<() => void>;
+  parent: AsyncBatch | undefined;
+  // The batch whose flow this one was started in, open or not
+  outer: AsyncBatch | undefined;
+  timer: ReturnType<typeof setTimeout> | null;
+  isOpen: boolean;
+  isClosed: boolean;
+}
+
+let defaultTimeout = 10000;
+let contextStorage: AsyncContextStorage<AsyncBatch> | null = null;
+// Without an async context every open batch holds every notification
+const openBatches = new Set<AsyncBatch>();
+let hasWarnedOverlap = false;
+let hasWarnedHeld = false;
+// Depth of batchAsync callbacks running synchronously, whose updates are
+// certainly their own
+let callbackDepth = 0;
+
+/**
+ * Scope async batches to their own flow, e.g. with `new AsyncLocalStorage()`
+ * from `node:async_hooks`. Pass null to share one batch between flows again.
+ */
+export function setBatchContextStorage(storage: AsyncContextStorage<any> | null): void {
+  contextStorage = storage;
+}
+
+/**
+ * Set how long an async batch may hold notifications before they are flushed
+ * @param ms - Defaults to 10000; Infinity disables the safety valve
+ */
+export function setBatchTimeout(ms: number): void {
+  defaultTimeout = ms;
+}
+
+function createAsyncBatch(): AsyncBatch {
+  return {
+    pending: new Set(),
+    parent: currentAsyncBatch(),
+    outer: contextStorage?.getStore(),
+    timer: null,
+    isOpen: false,
+    isClosed: false
+  };
+}
+
+function currentAsyncBatch(): AsyncBatch | undefined {
+  if (!contextStorage) {
+    return openBatches.values().next().value;
+  }
+
+  return nearestOpen(contextStorage.getStore());
+}
+
+// Skips batches that finished, or that never went async
+function nearestOpen(asyncBatch: AsyncBatch | undefined): AsyncBatch | undefined {
+  let current = asyncBatch;
+  while (current && (current.isClosed || !current.isOpen)) {
+    current = current.parent;
+  }
+  return current;
+}
+
+/**
+ * The batch flow the caller runs in. Undefined outside batches, and always
+ * without setBatchContextStorage(), since flows can't be told apart then.
+ */
+export function currentBatchFlow(): object | undefined {
+  return contextStorage?.getStore();
+}
+
+/**
+ * Whether the caller runs in `flow` or a batch started from it
+ */
+export function isInBatchFlow(flow: object): boolean {
+  let current = contextStorage?.getStore();
+  while (current) {
+    if (current === flow) return true;
+    current = current.outer;
+  }
+  return false;
+}
+
+function runInAsyncBatch<T>(asyncBatch: AsyncBatch, fn: () => T): T {
+  return contextStorage ? contextStorage.run(asyncBatch, fn) : fn();
+}
+
+function openAsyncBatch(asyncBatch: AsyncBatch, timeout: number): void {
+  if (!contextStorage && openBatches.size > 0 && !hasWarnedOverlap && !isProduction()) {
+    hasWarnedOverlap = true;
+    console.warn(
+      '[Batch] Overlapping batchAsync calls share held notifications; ' +
+      'call setBatchContextStorage() to scope them per async flow'
+    );
+  }
+
+  asyncBatch.isOpen = true;
+  openBatches.add(asyncBatch);
+
+  if (Number.isFinite(timeout)) {
+    asyncBatch.timer = setTimeout(() => {
+      if (!isProduction()) {
+        console.warn(`[Batch] Async batch still open after ${timeout}ms; flushing held notifications`);
+      }
+      closeAsyncBatch(asyncBatch);
+    }, timeout);
+  }
+}
+
+function closeAsyncBatch(asyncBatch: AsyncBatch): void {
+  if (asyncBatch.isClosed) return;
+
+  asyncBatch.isClosed = true;
+  if (asyncBatch.timer) {
+    clearTimeout(asyncBatch.timer);
+  }
+  openBatches.delete(asyncBatch);
+
+  // Nested batches hand their notifications to the enclosing one
+  const holder = contextStorage ? nearestOpen(asyncBatch.parent) : currentAsyncBatch();
+  if (holder) {
+    asyncBatch.pending.forEach(fn => holder.pending.add(fn));
+  } else {
+    runNotifications(asyncBatch.pending);
+  }
+  asyncBatch.pending.clear();
+}
+
+// Without an async context an update made while an async batch is open may
+// come from anywhere, and is held all the same
+function warnHeld(): void {
+  if (hasWarnedHeld || isProduction()) return;
+
+  hasWarnedHeld = true;
+  console.warn(
+    '[Batch] An open async batch is holding an update that may come from unrelated code; ' +
+    'call setBatchContextStorage() to hold only updates from its own async flow'
+  );
+}
+
+function runNotifications(notifications: Iterable<() => void>): void {
+  Array.from(notifications).forEach(fn => {
     try {
       fn();
     } catch (error) {
@@ -13,34 +176,109 @@ function flushNotifications(): void {
   });
 }
 
+function flushNotifications(): void {
+  const notifications = Array.from(pendingNotifications);
+  pendingNotifications.clear();
+  runNotifications(notifications);
+}
+
+function requestFlush(scheduler: BatchScheduler, flush: () => void): void {
+  if (typeof scheduler === 'function') {
+    scheduler(flush);
+  } else if (scheduler === 'animationFrame' && typeof requestAnimationFrame === 'function') {
+    requestAnimationFrame(() => flush());
+  } else {
+    // Also used for animationFrame where there are no frames, e.g. on the server
+    queueMicrotask(flush);
+  }
+}
+
+function flushScheduled(scheduler: BatchScheduler): void {
+  const notifications = scheduledNotifications.get(scheduler);
+  if (!notifications) return;
+
+  scheduledNotifications.delete(scheduler);
+  runNotifications(notifications);
+}
+
 /**
- * Schedule a notification to run immediately or after batch completes
+ * Deliver every notification waiting on a scheduler now. Held async batches
+ * are left alone.
+ */
+export function flushScheduledNotifications(): void {
+  while (scheduledNotifications.size > 0) {
+    Array.from(scheduledNotifications.keys()).forEach(flushScheduled);
+  }
+}
+
+/**
+ * Set the scheduler used by stores that don't configure their own
+ * @param scheduler - 'sync' (default), 'microtask', 'animationFrame' or a function that calls flush later
+ */
+export function setBatchScheduler(scheduler: BatchScheduler): void {
+  defaultScheduler = scheduler;
+}
+
+export function getBatchScheduler(): BatchScheduler {
+  return defaultScheduler;
+}
+
+/**
+ * Schedule a notification to run now, on the next scheduler flush, or
+ * after the current batch completes
  * @param fn - The notification function to schedule
+ * @param scheduler - Overrides the global scheduler
  */
-export function scheduleBatch(fn: () => void): void {
-  if (batchDepth === 0) {
-    // Not batching, execute immediately
-    fn();
-  } else {
+export function scheduleBatch(fn: () => void, scheduler: BatchScheduler = defaultScheduler): void {
+  if (batchDepth > 0) {
     // Batching is active, queue for later
     pendingNotifications.add(fn);
+    return;
   }
+
+  const asyncBatch = currentAsyncBatch();
+  if (asyncBatch) {
+    if (!contextStorage && callbackDepth === 0) {
+      warnHeld();
+    }
+    asyncBatch.pending.add(fn);
+    return;
+  }
+
+  if (scheduler === 'sync') {
+    fn();
+    return;
+  }
+
+  let notifications = scheduledNotifications.get(scheduler);
+  if (!notifications) {
+    notifications = new Set();
+    scheduledNotifications.set(scheduler, notifications);
+    requestFlush(scheduler, () => flushScheduled(scheduler));
+  }
+  notifications.add(fn);
 }
 
 /**
  * Check if currently batching
  */
 export function isBatching(): boolean {
-  return batchDepth > 0;
+  return batchDepth > 0 || currentAsyncBatch() !== undefined;
 }
 
 function startBatch(): void {
   batchDepth++;
 }
 
-function endBatch(): void {
+function endBatch(holder = currentAsyncBatch()): void {
   batchDepth--;
-  if (batchDepth === 0 && pendingNotifications.size > 0) {
+  if (batchDepth > 0 || pendingNotifications.size === 0) return;
+
+  if (holder) {
+    // A sync batch inside an async one is held until the async one ends
+    pendingNotifications.forEach(fn => holder.pending.add(fn));
+    pendingNotifications.clear();
+  } else {
     flushNotifications();
   }
 }
@@ -50,15 +288,18 @@ function endBatch(): void {
  * @param fn - Function containing state updates to batch
  */
 export function batch<T>(fn: () => T): T {
+  const asyncBatch = createAsyncBatch();
   startBatch();
   try {
-    const result = fn();
-    
+    const result = runInAsyncBatch(asyncBatch, fn);
+
     // Handle promises
     if (result instanceof Promise) {
-      return result.finally(() => endBatch()) as any;
+      openAsyncBatch(asyncBatch, defaultTimeout);
+      endBatch(asyncBatch);
+      return result.finally(() => closeAsyncBatch(asyncBatch)) as any;
     }
-    
+
     endBatch();
     return result;
   } catch (error) {
@@ -67,18 +308,34 @@ export function batch<T>(fn: () => T): T {
   }
 }
 
+export interface BatchAsyncOptions {
+  /** Flush held notifications if the batch is still open after this many ms */
+  timeout?: number;
+}
+
 /**
- * Batch async operations
+ * Batch async operations. Until setBatchContextStorage() is called, every
+ * update made anywhere while the batch is open is held, not just those from
+ * `fn`; scoping to `fn`'s own async flow is opt-in.
  * @param fn - Async function containing state updates to batch
+ * @param options - Per-call timeout, defaults to setBatchTimeout()
  */
-export async function batchAsync<T>(fn: () => Promise<T>): Promise<T> {
-  startBatch();
+export async function batchAsync<T>(
+  fn: () => Promise<T>,
+  options: BatchAsyncOptions = {}
+): Promise<T> {
+  const asyncBatch = createAsyncBatch();
+  openAsyncBatch(asyncBatch, options.timeout ?? defaultTimeout);
   try {
-    const result = await fn();
-    endBatch();
-    return result;
-  } catch (error) {
-    endBatch();
-    throw error;
+    let result: Promise<T>;
+    callbackDepth++;
+    try {
+      result = runInAsyncBatch(asyncBatch, fn);
+    } finally {
+      callbackDepth--;
+    }
+    return await result;
+  } finally {
+    closeAsyncBatch(asyncBatch);
   }
-}
\ No newline at end of file
+}
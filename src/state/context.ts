@@ -0,0 +1,66 @@
+import { createContext, createElement, useContext, useState, type ReactNode } from 'react';
+import { createStore, type Store, type StoreConfig, type StoreMiddleware } from './store';
+import { useStoreInstance } from './hooks';
+import { useDestroyOnUnmount } from './provider';
+import { withoutRegistration } from './registry';
+
+export interface StoreContextConfig<T> extends Omit<StoreConfig<T>, 'middleware'> {
+  /** Called for each Provider, since middleware such as devToolsMiddleware holds per-store state */
+  middleware?: () => StoreMiddleware<T>[];
+}
+
+export interface StoreContextProviderProps<T> {
+  /** Overrides the config's initialState for this instance */
+  initialState?: T;
+  children?: ReactNode;
+}
+
+export interface StoreContext<T> {
+  Provider: (props: StoreContextProviderProps<T>) => ReturnType<typeof createElement>;
+  useStore(): T;
+  useStore<R>(selector: (state: T) => R, equalityFn?: (a: R, b: R) => boolean): R;
+  useStoreApi(): Store<T>;
+}
+
+/**
+ * Create a store per mounted Provider, destroyed when that Provider unmounts.
+ * These stores stay out of the store registry, even when `name` is set.
+ */
+export function createStoreContext<T extends object>(config: StoreContextConfig<T>): StoreContext<T> {
+  const Context = createContext<Store<T> | null>(null);
+  const label = config.name || 'unnamed';
+
+  function Provider({ initialState, children }: StoreContextProviderProps<T>) {
+    const [store] = useState(() => withoutRegistration(() => createStore({
+      ...config,
+      initialState: initialState === undefined ? config.initialState : initialState,
+      middleware: config.middleware?.()
+    })));
+    const [destroy] = useState(() => () => store.destroy());
+
+    useDestroyOnUnmount(destroy);
+
+    return createElement(Context.Provider, { value: store }, children);
+  }
+
+  function useStoreApi(): Store<T> {
+    const store = useContext(Context);
+    if (!store) {
+      throw new Error(`[StoreContext:${label}] Hooks must be used within its Provider`);
+    }
+    return store;
+  }
+
+  function useStore<R>(
+    selector?: (state: T) => R,
+    equalityFn?: (a: R, b: R) => boolean
+  ): R | T {
+    return useStoreInstance(useStoreApi(), selector, equalityFn);
+  }
+
+  return {
+    Provider,
+    useStore: useStore as StoreContext<T>['useStore'],
+    useStoreApi
+  };
+}
@@ -0,0 +1,234 @@
+import { setStoreFactory, type ChangeInfo, type Store, type StoreMiddleware, type StoreStatus } from './store';
+import { parsePath, getPath } from '../utils/path';
+import { watchStore, type WatchEffect, type WatchOptions } from './watch';
+
+export type StoreStates<S extends readonly Store<any>[]> = {
+  [K in keyof S]: S[K] extends Store<infer T> ? T : never;
+};
+
+export interface DerivedStoreOptions<R> {
+  name?: string;
+  equalityFn?: (a: R, b: R) => boolean;
+}
+
+/**
+ * Create a read-only store computed from one or more source stores.
+ * Sources are only subscribed while the derived store has listeners, so an
+ * unobserved derived store holds no listeners on its sources.
+ */
+export function createDerivedStore<S extends readonly Store<any>[], R>(
+  sources: [...S],
+  combiner: (...states: StoreStates<S>) => R,
+  options: DerivedStoreOptions<R> = {}
+): Store<R> {
+  const { name = 'derived', equalityFn = Object.is } = options;
+  const listeners = new Set<(state: R, prevState: R, info: ChangeInfo) => void>();
+  const selectorCache = new Map<(state: R) => any, any>();
+  const watchers = new Set<() => void>();
+  let sourceUnsubscribes: Array<() => void> = [];
+  let cachedInputs: any[] | null = null;
+  let value: R;
+  let isDestroyed = false;
+
+  function compute(): R {
+    const inputs = sources.map(source => source.getState());
+
+    if (cachedInputs && inputs.every((input, i) => Object.is(input, cachedInputs![i]))) {
+      return value;
+    }
+
+    const next = combiner(...(inputs as StoreStates<S>));
+    const hadValue = cachedInputs !== null;
+    cachedInputs = inputs;
+
+    if (!hadValue || !equalityFn(value, next)) {
+      value = next;
+      selectorCache.clear();
+    }
+    return value;
+  }
+
+  function handleSourceChange(_state: unknown, _prevState: unknown, info: ChangeInfo): void {
+    if (isDestroyed) return;
+
+    const prevValue = value;
+    const nextValue = compute();
+    if (Object.is(prevValue, nextValue)) return;
+
+    listeners.forEach(listener => {
+      try {
+        listener(nextValue, prevValue, info);
+      } catch (error) {
+        console.error(`[DerivedStore:${name}] Listener error:`, error);
+      }
+    });
+  }
+
+  function connect(): void {
+    compute();
+    sourceUnsubscribes = sources.map(source => source.subscribe(handleSourceChange));
+  }
+
+  function disconnect(): void {
+    sourceUnsubscribes.forEach(unsubscribe => unsubscribe());
+    sourceUnsubscribes = [];
+  }
+
+  function getState(): R {
+    if (isDestroyed) {
+      throw new Error(`[DerivedStore:${name}] Cannot getState on destroyed store`);
+    }
+    return compute();
+  }
+
+  function subscribe(listener: (state: R, prevState: R, info: ChangeInfo) => void): () => void {
+    if (isDestroyed) {
+      throw new Error(`[DerivedStore:${name}] Cannot subscribe to destroyed store`);
+    }
+
+    if (listeners.size === 0) {
+      connect();
+    }
+    listeners.add(listener);
+
+    return () => {
+      if (listeners.delete(listener) && listeners.size === 0) {
+        disconnect();
+      }
+    };
+  }
+
+  function subscribeTo<T>(
+    selector: (state: R) => T,
+    listener: (value: T, prevValue: T, info: ChangeInfo) => void,
+    selectorEqualityFn: (a: T, b: T) => boolean = Object.is
+  ): () => void {
+    let selected = selector(getState());
+
+    return subscribe((state, _prevState, info) => {
+      const next = selector(state);
+      if (selectorEqualityFn(selected, next)) return;
+
+      const prev = selected;
+      selected = next;
+      listener(next, prev, info);
+    });
+  }
+
+  function readOnly(method: string): never {
+    throw new Error(`[DerivedStore:${name}] Cannot ${method} on read-only store`);
+  }
+
+  const derivedStore: Store<R> = {
+    getState,
+
+    setState() {
+      readOnly('setState');
+    },
+
+    replaceState() {
+      readOnly('replaceState');
+    },
+
+    reset() {
+      readOnly('reset');
+    },
+
+    getInitialState(): R {
+      const initialStates = sources.map(source => source.getInitialState());
+      return combiner(...(initialStates as StoreStates<S>));
+    },
+
+    produce() {
+      readOnly('produce');
+    },
+
+    transaction<T>(fn: () => T): T {
+      return fn();
+    },
+
+    subscribe(
+      pathOrListener: string | ((state: R, prevState: R, info: ChangeInfo) => void),
+      pathListener?: (value: any, prevValue: any, info: ChangeInfo) => void
+    ) {
+      if (typeof pathOrListener === 'string') {
+        const segments = parsePath(pathOrListener);
+        return subscribeTo(state => getPath(state, segments), pathListener!);
+      }
+
+      return subscribe(pathOrListener);
+    },
+
+    subscribeTo,
+
+    select<T>(selector: (state: R) => T): T {
+      const state = getState();
+      if (selectorCache.has(selector)) {
+        return selectorCache.get(selector);
+      }
+
+      const result = selector(state);
+      selectorCache.set(selector, result);
+      return result;
+    },
+
+    watch<T>(selector: (state: R) => T, effect: WatchEffect<T>, options?: WatchOptions<T>) {
+      const stop = watchStore({ getState, subscribeTo }, selector, effect, options);
+      watchers.add(stop);
+
+      return () => {
+        watchers.delete(stop);
+        stop();
+      };
+    },
+
+    getStatus(): StoreStatus {
+      const statuses = sources.map(source => source.getStatus());
+      if (statuses.includes('error')) return 'error';
+      return statuses.includes('loading') ? 'loading' : 'ready';
+    },
+
+    getError(): unknown {
+      const failed = sources.find(source => source.getStatus() === 'error');
+      return failed ? failed.getError() : null;
+    },
+
+    ready(): Promise<void> {
+      return Promise.all(sources.map(source => source.ready())).then(() => undefined);
+    },
+
+    use(_middleware: StoreMiddleware<R>): () => void {
+      return readOnly('use middleware');
+    },
+
+    destroy() {
+      if (isDestroyed) return;
+
+      watchers.forEach(stop => stop());
+      watchers.clear();
+      isDestroyed = true;
+      disconnect();
+      listeners.clear();
+      selectorCache.clear();
+    },
+
+    getListenerCount() {
+      return listeners.size;
+    },
+
+    getProfile() {
+      return null;
+    }
+  };
+
+  // Scoped copies compute from the scope's instances of the sources
+  setStoreFactory(
+    derivedStore,
+    undefined,
+    (_initialState, resolve = store => store) =>
+      createDerivedStore(sources.map(resolve) as [...S], combiner, options),
+    true
+  );
+
+  return derivedStore;
+}
@@ -1,7 +1,43 @@
-import type { Store } from './store';
+import type { Store, StoreMiddleware, StoreAction, StateUpdater, UpdateMode } from './store';
+import { isProduction } from '../utils/env';
+
+interface DevToolsConnection {
+  init(state: any): void;
+  send(action: any, state: any): void;
+  subscribe?(listener: (message: DevToolsMessage) => void): (() => void) | void;
+  unsubscribe?(): void;
+  disconnect?(): void;
+}
 
 interface DevToolsExtension {
-  connect(options: { name: string }): any;
+  connect(options: {
+    name: string;
+    maxAge?: number;
+    serialize?: DevToolsSerializer;
+  }): DevToolsConnection;
+}
+
+export interface DevToolsSerializer {
+  replacer?: (key: string, value: any) => any;
+  reviver?: (key: string, value: any) => any;
+}
+
+export interface DevToolsOptions<T> {
+  name?: string;
+  /** Number of actions kept in the extension and for replay */
+  maxAge?: number;
+  actionSanitizer?: (action: StoreAction, id: number) => StoreAction;
+  stateSanitizer?: (state: T, index: number) => any;
+  /** Defaults to a serializer that preserves Map, Set and Date */
+  serialize?: DevToolsSerializer;
+  /** Defaults to false when NODE_ENV is 'production' */
+  enabled?: boolean;
+}
+
+interface DevToolsMessage {
+  type: string;
+  payload?: any;
+  state?: string;
 }
 
 declare global {
@@ -10,36 +46,328 @@ declare global {
   }
 }
 
-export function connectDevTools<T>(
-  store: Store<T>,
-  name: string = 'Store'
-): (() => void) | undefined {
-  if (
-    typeof window === 'undefined' ||
-    !window.__REDUX_DEVTOOLS_EXTENSION__
-  ) {
+interface RecordedAction<T> {
+  /** The extension's action id, which keeps counting up after maxAge trims */
+  id: number;
+  action: StoreAction;
+  updater: StateUpdater<T>;
+  mode: UpdateMode;
+  timestamp: number;
+}
+
+const TYPE_KEY = '__serializedType__';
+
+export const devToolsSerializer: Required<DevToolsSerializer> = {
+  replacer(this: any, key: string, value: any) {
+    // Date#toJSON has already run, so read the raw value from the holder
+    const raw = this && key in Object(this) ? this[key] : value;
+    if (raw instanceof Map) return { [TYPE_KEY]: 'Map', data: Array.from(raw.entries()) };
+    if (raw instanceof Set) return { [TYPE_KEY]: 'Set', data: Array.from(raw.values()) };
+    if (raw instanceof Date) return { [TYPE_KEY]: 'Date', data: raw.toISOString() };
+    return value;
+  },
+
+  reviver(_key: string, value: any) {
+    if (value && typeof value === 'object' && TYPE_KEY in value) {
+      switch (value[TYPE_KEY]) {
+        case 'Map': return new Map(value.data);
+        case 'Set': return new Set(value.data);
+        case 'Date': return new Date(value.data);
+      }
+    }
+    return value;
+  }
+};
+
+function resolveOptions<T>(nameOrOptions: string | DevToolsOptions<T>): DevToolsOptions<T> {
+  return typeof nameOrOptions === 'string' ? { name: nameOrOptions } : nameOrOptions;
+}
+
+function isEnabled(options: DevToolsOptions<any>): boolean {
+  return options.enabled ?? !isProduction();
+}
+
+function getExtension(): DevToolsExtension | undefined {
+  if (typeof window === 'undefined') {
     return undefined;
   }
+  return window.__REDUX_DEVTOOLS_EXTENSION__;
+}
+
+function applyUpdater<T>(state: T, updater: StateUpdater<T>, mode: UpdateMode): T {
+  // replaceState and reset record the whole next state
+  if (mode !== 'merge') {
+    return updater as T;
+  }
+
+  const result = typeof updater === 'function' ? updater(state) : updater;
+  return typeof result === 'object' && result !== null
+    ? { ...state, ...result }
+    : result as T;
+}
+
+export function devToolsMiddleware<T>(
+  nameOrOptions: string | DevToolsOptions<T> = 'Store'
+): StoreMiddleware<T> {
+  const options = resolveOptions(nameOrOptions);
+  const {
+    name = 'Store',
+    maxAge = 50,
+    actionSanitizer,
+    stateSanitizer,
+    serialize = devToolsSerializer
+  } = options;
+  let devTools: DevToolsConnection | null = null;
+  // Set while the extension itself writes state, so the change isn't echoed back
+  let isIncoming = false;
+  let baseState: T;
+  // The state as of the last COMMIT, which ROLLBACK returns to
+  let committedState: T;
+  let recorded: RecordedAction<T>[] = [];
+  let nextActionId = 1;
+  let skipped = new Set<number>();
+
+  const middleware: StoreMiddleware<T> = (context, next) => {
+    if (isIncoming) {
+      next();
+      return;
+    }
 
-  try {
-    const devTools = window.__REDUX_DEVTOOLS_EXTENSION__.connect({ name });
-    devTools.init(store.getState());
-const unsubscribe = store.subscribe((state) => {
-      devTools.send(
-        {
+    // Recorded on commit: vetoed and no-op updates never happened as far as
+    // replay goes, and a later middleware may let the update through later
+    context.onCommit(state => {
+      if (!devTools) return;
+
+      try {
+        const action = context.action || {
           type: 'setState',
           payload: state
-        },
-        state
-      );
+        };
+        const id = record(action, context.updater, context.mode);
+        devTools.send(sanitizeAction(action, id), sanitizeState(state, recorded.length));
+      } catch (error) {
+        console.error('[DevTools] Send failed:', error);
+      }
     });
+    next();
+  };
+
+  function sanitizeAction(action: StoreAction, id: number): StoreAction {
+    return actionSanitizer ? actionSanitizer(action, id) : action;
+  }
+
+  function sanitizeState(state: T, index: number): any {
+    return stateSanitizer ? stateSanitizer(state, index) : state;
+  }
+
+  function parseState(state: string): T {
+    return JSON.parse(state, serialize.reviver);
+  }
+
+  function record(action: StoreAction, updater: StateUpdater<T>, mode: UpdateMode): number {
+    const id = nextActionId++;
+    recorded.push({ id, action, updater, mode, timestamp: Date.now() });
+    if (recorded.length > maxAge) {
+      // Fold the oldest action into the base state so replay stays correct
+      const oldest = recorded.shift()!;
+      if (!skipped.delete(oldest.id)) {
+        baseState = applyUpdater(baseState, oldest.updater, oldest.mode);
+      }
+    }
+    return id;
+  }
+
+  function setFromDevTools(store: Store<T>, state: T): void {
+    isIncoming = true;
+    try {
+      store.replaceState(state);
+    } finally {
+      isIncoming = false;
+    }
+  }
+
+  function reset(state: T): void {
+    baseState = state;
+    committedState = state;
+    recorded = [];
+    nextActionId = 1;
+    skipped = new Set();
+    devTools?.init(sanitizeState(state, 0));
+  }
+
+  // Shape expected by the extension when the app recomputes its history
+  function liftedState() {
+    const actionsById: Record<number, any> = {
+      0: { type: 'PERFORM_ACTION', action: { type: '@@INIT' }, timestamp: 0 }
+    };
+    const states = [baseState];
+    let state = baseState;
+
+    recorded.forEach(entry => {
+      actionsById[entry.id] = {
+        type: 'PERFORM_ACTION',
+        action: sanitizeAction(entry.action, entry.id),
+        timestamp: entry.timestamp
+      };
+      if (!skipped.has(entry.id)) {
+        state = applyUpdater(state, entry.updater, entry.mode);
+      }
+      states.push(state);
+    });
+
+    return {
+      states,
+      actionsById,
+      computedStates: states.map((computed, index) => ({ state: sanitizeState(computed, index) })),
+      currentStateIndex: recorded.length,
+      nextActionId,
+      skippedActionIds: Array.from(skipped),
+      stagedActionIds: [0, ...recorded.map(entry => entry.id)]
+    };
+  }
+
+  // Imported actions can't be replayed, so each one records the state it led to
+  function importHistory(lifted: any): void {
+    const computedStates: { state: T }[] = lifted.computedStates;
+    const ids: number[] = lifted.stagedActionIds || computedStates.map((_state, index) => index);
+
+    baseState = computedStates[0].state;
+    recorded = ids.slice(1, computedStates.length).map((id, index) => ({
+      id,
+      action: lifted.actionsById?.[id]?.action || { type: 'setState' },
+      updater: computedStates[index + 1].state,
+      mode: 'replace',
+      timestamp: lifted.actionsById?.[id]?.timestamp || 0
+    }));
+    skipped = new Set(lifted.skippedActionIds || []);
+    nextActionId = lifted.nextActionId ?? Math.max(0, ...ids) + 1;
+  }
+
+  // Position in the lifted states, which start with the base state
+  function stateIndex(payload: { actionId?: number; index?: number }): number {
+    if (typeof payload.actionId === 'number') {
+      if (payload.actionId === 0) return 0;
+      const position = recorded.findIndex(entry => entry.id === payload.actionId);
+      return position === -1 ? -1 : position + 1;
+    }
+    return typeof payload.index === 'number' ? payload.index : -1;
+  }
+
+  // Jump to the locally recorded state, since the extension only has the
+  // sanitized copy
+  function jumpTo(store: Store<T>, message: DevToolsMessage): void {
+    const index = stateIndex(message.payload);
+    const { states } = liftedState();
+
+    if (index >= 0 && index < states.length) {
+      setFromDevTools(store, states[index]);
+    } else if (message.state && !stateSanitizer) {
+      setFromDevTools(store, parseState(message.state));
+    }
+  }
+
+  function handleMessage(store: Store<T>, initialState: T, message: DevToolsMessage): void {
+    if (message.type !== 'DISPATCH' || !message.payload) return;
+
+    switch (message.payload.type) {
+      case 'JUMP_TO_STATE':
+      case 'JUMP_TO_ACTION':
+        jumpTo(store, message);
+        break;
+
+      case 'RESET':
+        setFromDevTools(store, initialState);
+        reset(initialState);
+        break;
+
+      case 'COMMIT':
+        reset(store.getState());
+        break;
+
+      case 'ROLLBACK': {
+        const state = committedState;
+        setFromDevTools(store, state);
+        reset(state);
+        break;
+      }
+
+      case 'IMPORT_STATE': {
+        const lifted = message.payload.nextLiftedState;
+        const computedStates = lifted?.computedStates || [];
+        if (computedStates.length === 0) break;
+
+        importHistory(lifted);
+        setFromDevTools(store, computedStates[computedStates.length - 1].state);
+        devTools?.send(null, lifted);
+        break;
+      }
+
+      case 'TOGGLE_ACTION': {
+        const id = message.payload.id;
+        // Already folded into the base state
+        if (!recorded.some(entry => entry.id === id)) break;
+
+        if (skipped.has(id)) {
+          skipped.delete(id);
+        } else {
+          skipped.add(id);
+        }
+
+        const { states, ...lifted } = liftedState();
+        setFromDevTools(store, states[lifted.currentStateIndex]);
+        devTools?.send(null, lifted);
+        break;
+      }
+    }
+  }
+
+  middleware.attach = (store) => {
+    const extension = getExtension();
+    if (!extension || !isEnabled(options)) return;
+
+    let initialState = store.getState();
+    let unsubscribe: (() => void) | void;
+
+    try {
+      devTools = extension.connect({ name, maxAge, serialize });
+      reset(initialState);
+      unsubscribe = devTools.subscribe?.(message => {
+        try {
+          handleMessage(store, initialState, message);
+        } catch (error) {
+          console.error('[DevTools] Message handling failed:', error);
+        }
+      });
+    } catch (error) {
+      console.error('[DevTools] Connection failed:', error);
+      devTools = null;
+      return;
+    }
+
+    if (store.getStatus() === 'loading') {
+      store.ready().then(() => {
+        initialState = store.getState();
+        reset(initialState);
+      }, () => {});
+    }
 
     return () => {
-      unsubscribe();
-      devTools.disconnect?.();
+      unsubscribe?.();
+      devTools?.disconnect?.();
+      devTools = null;
     };
-  } catch (error) {
-    console.error('[DevTools] Connection failed:', error);
+  };
+
+  return middleware;
+}
+
+export function connectDevTools<T>(
+  store: Store<T>,
+  nameOrOptions: string | DevToolsOptions<T> = 'Store'
+): (() => void) | undefined {
+  if (!getExtension() || !isEnabled(resolveOptions(nameOrOptions))) {
     return undefined;
   }
-}
\ No newline at end of file
+
+  return store.use(devToolsMiddleware<T>(nameOrOptions));
+}
@@ -0,0 +1,91 @@
+import { getStoreFactory, setStoreFactory, type Store } from './store';
+
+export interface HistoryOptions {
+  limit?: number;
+}
+
+export interface HistoryStore<T> extends Store<T> {
+  undo(): void;
+  redo(): void;
+  canUndo(): boolean;
+  canRedo(): boolean;
+  clearHistory(): void;
+}
+
+/**
+ * Record past states of a store. Entries are taken per notification, so a
+ * whole batch() or batchAsync() becomes a single undo step.
+ */
+export function withHistory<T extends object>(
+  store: Store<T>,
+  options: HistoryOptions = {}
+): HistoryStore<T> {
+  const { limit = 100 } = options;
+  let past: T[] = [];
+  let future: T[] = [];
+  let expectedState: T | null = null;
+
+  store.subscribe((state, prevState) => {
+    const expected = expectedState;
+    expectedState = null;
+    if (state === expected) return;
+
+    past.push(prevState);
+    if (past.length > limit) {
+      past.shift();
+    }
+    future = [];
+  });
+
+  // Replace rather than merge, so keys added after the entry was recorded
+  // don't survive an undo
+  function travel(target: T): void {
+    expectedState = target;
+    store.replaceState(target, { type: '@@history/travel' });
+  }
+
+  const historyStore: HistoryStore<T> = {
+    ...store,
+
+    undo() {
+      if (past.length === 0) return;
+
+      const previous = past.pop()!;
+      future.push(store.getState());
+      travel(previous);
+    },
+
+    redo() {
+      if (future.length === 0) return;
+
+      const next = future.pop()!;
+      past.push(store.getState());
+      travel(next);
+    },
+
+    canUndo() {
+      return past.length > 0;
+    },
+
+    canRedo() {
+      return future.length > 0;
+    },
+
+    clearHistory() {
+      past = [];
+      future = [];
+    }
+  };
+
+  const factory = getStoreFactory(store);
+  if (factory) {
+    setStoreFactory(
+      historyStore,
+      factory.name,
+      (initialState, resolve) => withHistory(factory.create(initialState, resolve), options),
+      factory.derived
+    );
+  }
+
+  return historyStore;
+}
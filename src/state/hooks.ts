@@ -1,22 +1,71 @@
 import { useSyncExternalStore, useCallback, useRef, useEffect } from 'react';
 import type { Store } from './store';
+import type { StoreStates } from './derived';
+import { useStoreScope } from './provider';
 import { shallowEqual } from '../utils/equality';
 
+export interface UseStoreOptions {
+  /**
+   * Suspend while an async initialState loads and throw a failed load to the
+   * nearest error boundary. Otherwise the placeholder is rendered.
+   */
+  suspense?: boolean;
+}
+
 export function useStore<T>(store: Store<T>): T;
 export function useStore<T, R>(
   store: Store<T>,
   selector: (state: T) => R,
-  equalityFn?: (a: R, b: R) => boolean
+  equalityFn?: (a: R, b: R) => boolean,
+  options?: UseStoreOptions
 ): R;
 
 export function useStore<T, R = T>(
   store: Store<T>,
   selector?: (state: T) => R,
-  equalityFn: (a: R, b: R) => boolean = Object.is
+  equalityFn: (a: R, b: R) => boolean = Object.is,
+  options?: UseStoreOptions
 ): R | T {
+  const scope = useStoreScope();
+  return useStoreInstance(scope ? scope.get(store) : store, selector, equalityFn, options);
+}
+
+/**
+ * Suspend while an async initialState loads, and surface a failed load to
+ * the nearest error boundary.
+ */
+function suspendUntilReady(store: Store<any>): void {
+  const status = store.getStatus();
+  if (status === 'loading') {
+    throw store.ready().catch(() => {});
+  }
+  if (status === 'error') {
+    throw store.getError();
+  }
+}
+
+/**
+ * Subscribe to exactly this store instance, bypassing any StoreProvider scope.
+ */
+export function useStoreInstance<T, R = T>(
+  target: Store<T>,
+  selector?: (state: T) => R,
+  equalityFn: (a: R, b: R) => boolean = Object.is,
+  options: UseStoreOptions = {}
+): R | T {
+  if (options.suspense) {
+    suspendUntilReady(target);
+  }
   const selectorRef = useRef(selector);
   const equalityFnRef = useRef(equalityFn);
 
+  // The state this component first rendered with, which is what the server
+  // rendered for hydration
+  const serverRef = useRef<{ store: Store<T>; state: T; selected?: { value: R } } | null>(null);
+  if (!serverRef.current || serverRef.current.store !== target) {
+    serverRef.current = { store: target, state: target.getState() };
+  }
+
   // Update refs without causing re-render
   useEffect(() => {
     selectorRef.current = selector;
@@ -25,19 +74,101 @@ export function useStore<T, R = T>(
 
   const subscribe = useCallback(
     (onStoreChange: () => void) => {
-      return store.subscribe(onStoreChange);
+      return target.subscribe(onStoreChange);
     },
-    [store]
+    [target]
   );
 
   const getSnapshot = useCallback(() => {
     const currentSelector = selectorRef.current;
     return currentSelector 
-      ? store.select(currentSelector, equalityFnRef.current)
-      : store.getState();
-  }, [store]);
+      ? target.select(currentSelector, equalityFnRef.current)
+      : target.getState();
+  }, [target]);
+
+  const getServerSnapshot = useCallback(() => {
+    const server = serverRef.current!;
+    const currentSelector = selectorRef.current;
+    if (!currentSelector) {
+      return server.state;
+    }
+    if (!server.selected) {
+      server.selected = { value: currentSelector(server.state) };
+    }
+    return server.selected.value;
+  }, []);
+
+  return useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot) as R | T;
+}
+
+function sameItems(a: readonly any[], b: readonly any[]): boolean {
+  return a.length === b.length && a.every((item, i) => Object.is(item, b[i]));
+}
+
+/**
+ * Select from several stores with a single subscription. Changes to several
+ * stores in one batch() cause one render and never a torn combination.
+ */
+export function useStores<S extends readonly Store<any>[], R>(
+  stores: [...S],
+  selector: (...states: StoreStates<S>) => R,
+  equalityFn: (a: R, b: R) => boolean = Object.is,
+  options: UseStoreOptions = {}
+): R {
+  const scope = useStoreScope();
+  const targets = scope ? stores.map(store => scope.get(store)) : stores;
+  if (options.suspense) {
+    targets.forEach(suspendUntilReady);
+  }
+
+  // Keep the same array while the stores are the same, so inline arrays
+  // don't resubscribe on every render
+  const targetsRef = useRef(targets);
+  if (!sameItems(targetsRef.current, targets)) {
+    targetsRef.current = targets;
+  }
+  const stableTargets = targetsRef.current;
+
+  const selectorRef = useRef(selector);
+  const equalityFnRef = useRef(equalityFn);
+  const snapshotRef = useRef<{ states: any[]; value: R } | null>(null);
+  const serverRef = useRef<{ targets: readonly Store<any>[]; value: R } | null>(null);
+
+  useEffect(() => {
+    selectorRef.current = selector;
+    equalityFnRef.current = equalityFn;
+  });
+
+  const subscribe = useCallback(
+    (onStoreChange: () => void) => {
+      const unsubscribes = stableTargets.map(store => store.subscribe(onStoreChange));
+      return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+    },
+    [stableTargets]
+  );
+
+  const getSnapshot = useCallback(() => {
+    const states = stableTargets.map(store => store.getState());
+    const previous = snapshotRef.current;
+    if (previous && sameItems(previous.states, states)) {
+      return previous.value;
+    }
+
+    const next = selectorRef.current(...(states as StoreStates<S>));
+    const value = previous && equalityFnRef.current(previous.value, next)
+      ? previous.value
+      : next;
+    snapshotRef.current = { states, value };
+    return value;
+  }, [stableTargets]);
+
+  if (!serverRef.current || serverRef.current.targets !== stableTargets) {
+    serverRef.current = { targets: stableTargets, value: getSnapshot() };
+  }
+
+  const getServerSnapshot = useCallback(() => serverRef.current!.value, []);
 
-  return useSyncExternalStore(subscribe, getSnapshot, getSnapshot) as R | T;
+  return useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
 }
 
 // Optimized selector hook with built-in memoization
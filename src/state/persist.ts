@@ -1,21 +1,46 @@
-import { createStore, type Store, type StoreConfig } from './store';
+import { createStore, type Store, type StoreConfig, type StoreMiddleware } from './store';
+import type { PersistStorage } from './storage';
 import { safeStorage } from '../utils/env';
+import { shallowEqual } from '../utils/equality';
 import { throttle } from '../utils/timing';
 
 export interface PersistConfig<T> {
   key: string;
-  storage?: Storage;
+  /** localStorage by default; Promise-based storages are supported too */
+  storage?: PersistStorage;
   throttleMs?: number;
   version?: number;
   migrate?: (persistedState: any, version: number) => T;
   serialize?: (state: T) => string;
   deserialize?: (str: string) => T;
+  /** Only persist these keys */
+  include?: (keyof T)[];
+  /** Never persist these keys, e.g. loading flags or tokens */
+  exclude?: (keyof T)[];
+  /** Pick what to persist; takes precedence over include and exclude */
+  partialize?: (state: T) => Partial<T>;
 }
 
-export function createPersistedStore<T extends object>(
-  storeConfig: StoreConfig<T>,
-  persistConfig: PersistConfig<T>
-): Store<T> {
+export interface PersistedStore<T> extends Store<T> {
+  /** Remove the persisted copy; the in-memory state is kept */
+  clearPersisted(): Promise<void>;
+}
+
+type Persisted<T> = Partial<T> | null;
+
+interface Persistence<T> {
+  read(): Persisted<T> | Promise<Persisted<T>>;
+  partialize(state: T): Partial<T>;
+  save(state: Partial<T>): void;
+  remove(): Promise<void>;
+  throttleMs: number;
+}
+
+function isPromiseLike<V>(value: unknown): value is PromiseLike<V> {
+  return !!value && typeof (value as PromiseLike<V>).then === 'function';
+}
+
+function createPersistence<T>(persistConfig: PersistConfig<T>): Persistence<T> {
   const {
     key,
     storage = safeStorage(),
@@ -23,51 +48,206 @@ export function createPersistedStore<T extends object>(
     version = 1,
     migrate,
     serialize = JSON.stringify,
-    deserialize = JSON.parse
+    deserialize = JSON.parse,
+    include,
+    exclude
   } = persistConfig;
 
-  // Load persisted state
-  let initialState = storeConfig.initialState;
-  try {
-    const stored = storage.getItem(key);
-    if (stored) {
-      const parsed = deserialize(stored);
-      const persistedVersion = parsed.__version || 0;
+  function isPersistedKey(key: keyof T): boolean {
+    if (include && !include.includes(key)) return false;
+    return !(exclude && exclude.includes(key));
+  }
 
-      if (migrate && persistedVersion !== version) {
-        initialState = migrate(parsed, persistedVersion);
-      } else {
-        const { __version, ...state } = parsed;
-        initialState = { ...initialState, ...state };
+  function pick(state: Partial<T>): Partial<T> {
+    const picked: Partial<T> = {};
+    (Object.keys(state) as (keyof T)[]).forEach(key => {
+      if (isPersistedKey(key)) {
+        picked[key] = state[key];
       }
+    });
+    return picked;
+  }
+
+  const partialize = persistConfig.partialize || pick;
+
+  function parse(stored: string | null): Persisted<T> {
+    if (!stored) return null;
+
+    const parsed = deserialize(stored) as any;
+    const persistedVersion = parsed.__version || 0;
+
+    if (migrate && persistedVersion !== version) {
+      return migrate(parsed, persistedVersion);
     }
-  } catch (error) {
+
+    const { __version, ...state } = parsed;
+    // Keys written before they were excluded are not restored
+    return persistConfig.partialize ? state : pick(state);
+  }
+
+  function loadFailed(error: unknown): null {
     console.error('[Persist] Failed to load state:', error);
+    return null;
+  }
+
+  function saveFailed(error: unknown): void {
+    console.error('[Persist] Failed to save state:', error);
   }
 
-  const store = createStore({ ...storeConfig, initialState });
+  return {
+    read() {
+      try {
+        const stored = storage.getItem(key);
+        return isPromiseLike<string | null>(stored)
+          ? Promise.resolve(stored).then(parse).catch(loadFailed)
+          : parse(stored);
+      } catch (error) {
+        return loadFailed(error);
+      }
+    },
+
+    partialize,
+
+    save(state: Partial<T>) {
+      try {
+        const toStore = { ...state, __version: version };
+        const result = storage.setItem(key, serialize(toStore as any));
+        if (isPromiseLike(result)) {
+          Promise.resolve(result).catch(saveFailed);
+        }
+      } catch (error) {
+        saveFailed(error);
+      }
+    },
+
+    async remove() {
+      await storage.removeItem(key);
+    },
+
+    throttleMs
+  };
+}
+
+function persistWith<T extends object>(
+  persistence: Persistence<T>,
+  read: () => Persisted<T> | Promise<Persisted<T>> = persistence.read,
+  loaded?: () => T
+): StoreMiddleware<T> {
+  const middleware: StoreMiddleware<T> = (_context, next) => next();
+
+  middleware.attach = (store) => {
+    let attached = true;
+    let isHydrated = false;
+    let lastPersisted: Partial<T> | null = null;
+
+    // Throttled save function
+    const saveState = throttle((state: Partial<T>) => {
+      persistence.save(state);
+    }, persistence.throttleMs);
+
+    // Changes to fields that aren't persisted never reach the throttle
+    function persist(state: T): void {
+      if (!isHydrated) return;
 
-  // Throttled save function
-  const saveState = throttle((state: T) => {
-    try {
-      const toStore = { ...state, __version: version };
-      storage.setItem(key, serialize(toStore as any));
-    } catch (error) {
-      console.error('[Persist] Failed to save state:', error);
+      const persisted = persistence.partialize(state);
+      if (shallowEqual(persisted, lastPersisted)) return;
+
+      lastPersisted = persisted;
+      saveState(persisted);
     }
-  }, throttleMs);
 
-  // Subscribe to changes
-  const unsubscribe = store.subscribe((state) => {
-    saveState(state);
-  });
+    function apply(state: Persisted<T>): void {
+      if (!attached) return;
+
+      if (state) {
+        store.setState(state);
+      }
+      // What was just loaded doesn't need writing back, unlike writes made
+      // while it was loading
+      isHydrated = true;
+      lastPersisted = persistence.partialize(loaded ? loaded() : store.getState());
+      persist(store.getState());
+    }
+
+    function load(): void {
+      const result = read();
+      if (isPromiseLike<Persisted<T>>(result)) {
+        result.then(apply);
+      } else {
+        apply(result);
+      }
+    }
+
+    if (store.getStatus() === 'loading') {
+      store.ready().then(() => attached && load(), () => {});
+    } else {
+      load();
+    }
 
-  // Cleanup on destroy
-  const originalDestroy = store.destroy.bind(store);
-  store.destroy = () => {
-    unsubscribe();
-    originalDestroy();
+    const unsubscribe = store.subscribe(persist);
+
+    return () => {
+      attached = false;
+      unsubscribe();
+      // A write made just before destroy still gets saved
+      saveState.flush();
+    };
   };
 
-  return store;
-}
\ No newline at end of file
+  return middleware;
+}
+
+export function persistMiddleware<T extends object>(
+  persistConfig: PersistConfig<T>
+): StoreMiddleware<T> {
+  return persistWith(createPersistence(persistConfig));
+}
+
+/**
+ * Create a store that loads from and saves to storage. With a Promise-based
+ * storage or initialState the store stays 'loading' until persisted values
+ * are in, showing the initial state meanwhile unless a placeholder is given.
+ * `ready()` is the hydration promise.
+ */
+export function createPersistedStore<T extends object>(
+  storeConfig: StoreConfig<T>,
+  persistConfig: PersistConfig<T>
+): PersistedStore<T> {
+  const persistence = createPersistence(persistConfig);
+  const stored = persistence.read();
+  const middleware = storeConfig.middleware || [];
+  const { initialState } = storeConfig;
+  const base = typeof initialState === 'function'
+    ? (initialState as () => T | Promise<T>)()
+    : initialState;
+  let store: Store<T>;
+
+  if (isPromiseLike(stored) || isPromiseLike(base)) {
+    // Persisted values are part of the loaded state, so listeners go from the
+    // placeholder straight to the hydrated state
+    let hydrated: T;
+
+    store = createStore({
+      ...storeConfig,
+      placeholder: storeConfig.placeholder ?? (isPromiseLike(base) ? undefined : base),
+      initialState: async () => {
+        const [state, persisted] = await Promise.all([base, stored]);
+        hydrated = persisted ? { ...state, ...persisted } : state;
+        return hydrated;
+      },
+      middleware: [...middleware, persistWith(persistence, () => null, () => hydrated)]
+    });
+  } else {
+    // Merged into the initial state rather than set after creation, so
+    // middleware never sees hydration as an update
+    store = createStore({
+      ...storeConfig,
+      initialState: stored ? { ...base, ...stored } : base,
+      middleware: [...middleware, persistWith(persistence, () => null)]
+    });
+  }
+
+  return Object.assign(store, {
+    clearPersisted: () => persistence.remove()
+  });
+}
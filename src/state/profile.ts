@@ -0,0 +1,161 @@
+export interface ProfileOptions {
+  /** Warn the first time a listener takes longer than this, in ms (default 16) */
+  budget?: number;
+  /** Record where setState was called from; costs a stack trace per update (default true) */
+  callSites?: boolean;
+}
+
+export interface ListenerProfile {
+  name: string;
+  calls: number;
+  totalTime: number;
+  maxTime: number;
+  overBudget: number;
+}
+
+export interface CallSiteProfile {
+  site: string;
+  updates: number;
+  /** Time spent notifying listeners for the batches this site took part in */
+  notifyTime: number;
+}
+
+export interface StoreProfile {
+  notifications: number;
+  updates: number;
+  totalNotifyTime: number;
+  /** Slowest first */
+  listeners: ListenerProfile[];
+  /** Most expensive first */
+  callSites: CallSiteProfile[];
+}
+
+type AnyListener = (...args: any[]) => void;
+
+export interface Profiler {
+  recordUpdate(): void;
+  timeListener(listener: AnyListener, run: () => void): void;
+  timeNotification(run: () => void): void;
+  getProfile(): StoreProfile;
+}
+
+function now(): number {
+  return typeof performance !== 'undefined' ? performance.now() : Date.now();
+}
+
+const FRAME_LOCATION = /([^\s(@]+):\d+:\d+\)?$/;
+
+// Methods an update enters the library through. Frames are matched by name
+// rather than by file, since apps are usually bundled together with the library.
+const ENTRY_POINTS = new Set([
+  'setState', 'replaceState', 'reset', 'produce', 'dispatch', 'undo', 'redo', 'travel'
+]);
+
+// "at Object.setState (file:1:2)" in V8, "setState@file:1:2" elsewhere. V8
+// names methods whose function was renamed, e.g. minified, "Object.a [as setState]".
+function functionName(frame: string): string {
+  const alias = frame.match(/\[as ([^\]]+)\]/);
+  if (alias) return alias[1];
+
+  const match = frame.trim().match(/^(?:at\s+)?(?:async\s+)?([^\s(@]*)/);
+  const name = match ? match[1] : '';
+  return name.slice(name.lastIndexOf('.') + 1);
+}
+
+// The first frame past the store method the update came through
+function captureCallSite(): string {
+  const frames = (new Error().stack || '').split('\n').filter(line => FRAME_LOCATION.test(line.trim()));
+  let index = frames.findIndex(frame => ENTRY_POINTS.has(functionName(frame)));
+  if (index === -1) return 'unknown';
+
+  while (index < frames.length && ENTRY_POINTS.has(functionName(frames[index]))) {
+    index++;
+  }
+  const caller = frames[index];
+  return caller ? caller.trim().replace(/^at /, '') : 'unknown';
+}
+
+/**
+ * Collect listener timings and update call sites for one store
+ */
+export function createProfiler(storeName: string, options: ProfileOptions = {}): Profiler {
+  const { budget = 16, callSites: trackCallSites = true } = options;
+  const listeners = new Map<AnyListener, ListenerProfile>();
+  const callSites = new Map<string, CallSiteProfile>();
+  let pendingSites = new Set<CallSiteProfile>();
+  let notifications = 0;
+  let updates = 0;
+  let totalNotifyTime = 0;
+
+  return {
+    recordUpdate() {
+      updates++;
+      if (!trackCallSites) return;
+
+      const site = captureCallSite();
+      let entry = callSites.get(site);
+      if (!entry) {
+        entry = { site, updates: 0, notifyTime: 0 };
+        callSites.set(site, entry);
+      }
+      entry.updates++;
+      pendingSites.add(entry);
+    },
+
+    timeListener(listener, run) {
+      let entry = listeners.get(listener);
+      if (!entry) {
+        entry = { name: listener.name || 'anonymous', calls: 0, totalTime: 0, maxTime: 0, overBudget: 0 };
+        listeners.set(listener, entry);
+      }
+
+      const start = now();
+      try {
+        run();
+      } finally {
+        const elapsed = now() - start;
+        entry.calls++;
+        entry.totalTime += elapsed;
+        entry.maxTime = Math.max(entry.maxTime, elapsed);
+
+        if (elapsed > budget) {
+          if (entry.overBudget === 0) {
+            console.warn(
+              `[Store:${storeName}] Listener "${entry.name}" took ${elapsed.toFixed(1)}ms (budget ${budget}ms)`
+            );
+          }
+          entry.overBudget++;
+        }
+      }
+    },
+
+    timeNotification(run) {
+      const sites = pendingSites;
+      pendingSites = new Set();
+
+      const start = now();
+      try {
+        run();
+      } finally {
+        const elapsed = now() - start;
+        notifications++;
+        totalNotifyTime += elapsed;
+        sites.forEach(site => {
+          site.notifyTime += elapsed;
+        });
+      }
+    },
+
+    getProfile(): StoreProfile {
+      return {
+        notifications,
+        updates,
+        totalNotifyTime,
+        listeners: Array.from(listeners.values(), entry => ({ ...entry }))
+          .sort((a, b) => b.totalTime - a.totalTime),
+        callSites: Array.from(callSites.values(), entry => ({ ...entry }))
+          .sort((a, b) => b.notifyTime - a.notifyTime || b.updates - a.updates)
+      };
+    }
+  };
+}
@@ -0,0 +1,47 @@
+import {
+  createContext,
+  createElement,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+  type ReactNode
+} from 'react';
+import { createStoreScope, type DehydratedState, type StoreScope } from './scope';
+
+export const StoreScopeContext = createContext<StoreScope | null>(null);
+
+export interface StoreProviderProps {
+  /** A scope created per request on the server */
+  scope?: StoreScope;
+  /** Dehydrated state used to seed a new scope, e.g. on the client */
+  state?: DehydratedState;
+  children?: ReactNode;
+}
+
+/**
+ * Destroy on unmount, deferred so StrictMode's unmount/remount keeps the instance.
+ */
+export function useDestroyOnUnmount(destroy: () => void): void {
+  const pending = useRef<ReturnType<typeof setTimeout>>();
+
+  useEffect(() => {
+    clearTimeout(pending.current);
+    return () => {
+      pending.current = setTimeout(destroy, 0);
+    };
+  }, [destroy]);
+}
+
+export function StoreProvider({ scope, state, children }: StoreProviderProps) {
+  const [ownScope] = useState(() => (scope ? null : createStoreScope(state)));
+  const [destroyOwnScope] = useState(() => () => ownScope?.destroy());
+
+  useDestroyOnUnmount(destroyOwnScope);
+
+  return createElement(StoreScopeContext.Provider, { value: scope || ownScope }, children);
+}
+
+export function useStoreScope(): StoreScope | null {
+  return useContext(StoreScopeContext);
+}
@@ -0,0 +1,97 @@
+import type { Store } from './store';
+
+export interface StoreRegistryEvent {
+  type: 'created' | 'destroyed';
+  name: string;
+  store: Store<any>;
+}
+
+type RegistryListener = (event: StoreRegistryEvent) => void;
+
+let enabled = false;
+let suspended = 0;
+const stores = new Map<string, Store<any>>();
+const listeners = new Set<RegistryListener>();
+
+function emit(event: StoreRegistryEvent): void {
+  listeners.forEach(listener => {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error('[Registry] Listener error:', error);
+    }
+  });
+}
+
+/**
+ * Start tracking named stores. Stores created before this call are not tracked.
+ */
+export function enableStoreRegistry(): void {
+  enabled = true;
+}
+
+export function disableStoreRegistry(): void {
+  enabled = false;
+  stores.clear();
+}
+
+export function registerStore(name: string, store: Store<any>): void {
+  if (!enabled || suspended > 0) return;
+
+  if (stores.has(name) && stores.get(name) !== store) {
+    console.warn(`[Registry] Store "${name}" is already registered and will be replaced`);
+  }
+
+  stores.set(name, store);
+  emit({ type: 'created', name, store });
+}
+
+/**
+ * Create stores that stay out of the registry, e.g. per-scope instances that
+ * would otherwise replace the module-level store of the same name
+ */
+export function withoutRegistration<T>(create: () => T): T {
+  suspended++;
+  try {
+    return create();
+  } finally {
+    suspended--;
+  }
+}
+
+export function unregisterStore(name: string, store: Store<any>): void {
+  if (stores.get(name) !== store) return;
+
+  stores.delete(name);
+  emit({ type: 'destroyed', name, store });
+}
+
+export function getRegisteredStores(): Map<string, Store<any>> {
+  return new Map(stores);
+}
+
+export function snapshotAll(): Record<string, unknown> {
+  const snapshot: Record<string, unknown> = {};
+  stores.forEach((store, name) => {
+    snapshot[name] = store.getState();
+  });
+  return snapshot;
+}
+
+export function restoreAll(snapshot: Record<string, unknown>): void {
+  Object.keys(snapshot).forEach(name => {
+    const store = stores.get(name);
+    if (!store) {
+      console.warn(`[Registry] No store named "${name}" to restore`);
+      return;
+    }
+    store.replaceState(snapshot[name], { type: '@@registry/restore' });
+  });
+}
+
+export function onStoreRegistryChange(listener: RegistryListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,97 @@
+import { getStoreFactory, type Store } from './store';
+import { withoutRegistration } from './registry';
+
+export type DehydratedState = Record<string, unknown>;
+
+export interface StoreScope {
+  /** The scope's own instance of a module-level store, created on first use */
+  get<S extends Store<any>>(store: S): S;
+  dehydrate(): DehydratedState;
+  hydrate(payload: DehydratedState): void;
+  destroy(): void;
+}
+
+/**
+ * Create an isolated set of store instances, e.g. one per server request.
+ * Stores are matched to the payload by their `name`.
+ */
+export function createStoreScope(payload: DehydratedState = {}): StoreScope {
+  const instances = new Map<Store<any>, { name?: string; derived?: boolean; instance: Store<any> }>();
+  // Stores without a factory, warned about once and then used as they are
+  const shared = new Set<Store<any>>();
+  let pending: DehydratedState = { ...payload };
+  let isDestroyed = false;
+
+  const scope: StoreScope = {
+    get<S extends Store<any>>(store: S): S {
+      if (isDestroyed) {
+        throw new Error('[StoreScope] Cannot get a store from a destroyed scope');
+      }
+
+      const existing = instances.get(store);
+      if (existing) {
+        return existing.instance as S;
+      }
+      if (shared.has(store)) {
+        return store;
+      }
+
+      const factory = getStoreFactory(store);
+      if (!factory) {
+        console.warn('[StoreScope] Store cannot be scoped, using the shared instance');
+        shared.add(store);
+        return store;
+      }
+
+      const { name, derived } = factory;
+      // Never seed from the shared instance, which other requests may have changed
+      const initialState = name && name in pending
+        ? pending[name]
+        : undefined;
+      if (name) {
+        delete pending[name];
+      }
+
+      // Scoped instances must not replace the module-level store in the registry
+      const instance = withoutRegistration(() => factory.create(initialState, scope.get)) as S;
+      instances.set(store, { name, derived, instance });
+      return instance;
+    },
+
+    dehydrate(): DehydratedState {
+      const result: DehydratedState = {};
+      instances.forEach(({ name, derived, instance }) => {
+        if (derived) return;
+        if (!name) {
+          console.warn('[StoreScope] Unnamed store skipped during dehydrate');
+          return;
+        }
+        result[name] = instance.getState();
+      });
+      return result;
+    },
+
+    hydrate(next: DehydratedState): void {
+      const remaining = { ...next };
+      instances.forEach(({ name, instance }) => {
+        if (name && name in remaining) {
+          instance.replaceState(remaining[name], { type: '@@scope/hydrate' });
+          delete remaining[name];
+        }
+      });
+      pending = { ...pending, ...remaining };
+    },
+
+    destroy(): void {
+      if (isDestroyed) return;
+
+      isDestroyed = true;
+      instances.forEach(({ instance }) => instance.destroy());
+      instances.clear();
+      shared.clear();
+      pending = {};
+    }
+  };
+
+  return scope;
+}
@@ -0,0 +1,123 @@
+type InputSelector<T> = (state: T) => any;
+type ParameterizedInput = (state: any, arg: any) => any;
+
+type SelectorResults<I extends readonly any[]> = {
+  [K in keyof I]: I[K] extends (...args: any[]) => infer R ? R : never;
+};
+
+type InputState<I extends readonly any[]> = Parameters<I[0]>[0];
+
+type InputArg<I extends readonly ParameterizedInput[]> = Exclude<
+  { [K in keyof I]: Parameters<I[K]>[1] }[number],
+  undefined
+>;
+
+export interface SelectorOptions<R> {
+  /** Keep the previous result when the new one is equal, e.g. shallowEqual for arrays */
+  resultEqualityFn?: (a: R, b: R) => boolean;
+}
+
+export interface MemoizedSelector<T, R> {
+  (state: T): R;
+  recomputations(): number;
+  clearCache(): void;
+}
+
+export interface ParameterizedSelectorOptions<R> extends SelectorOptions<R> {
+  maxSize?: number;
+}
+
+export interface ParameterizedSelector<T, A, R> {
+  (arg: A): MemoizedSelector<T, R>;
+  clearCache(): void;
+}
+
+/**
+ * Create a selector that only recomputes when one of its inputs changes.
+ * The same function instance is returned on every call, so it also hits
+ * the store's own select cache.
+ */
+export function createSelector<I extends readonly InputSelector<any>[], R>(
+  inputs: [...I],
+  combiner: (...values: SelectorResults<I>) => R,
+  options: SelectorOptions<R> = {}
+): MemoizedSelector<InputState<I>, R> {
+  type T = InputState<I>;
+  const { resultEqualityFn } = options;
+  let hasResult = false;
+  let lastState: T;
+  let lastInputs: any[] = [];
+  let lastResult: R;
+  let recomputations = 0;
+
+  const selector = ((state: T): R => {
+    if (hasResult && Object.is(state, lastState)) {
+      return lastResult;
+    }
+    lastState = state;
+
+    const values = inputs.map(input => input(state));
+    if (hasResult && values.every((value, i) => Object.is(value, lastInputs[i]))) {
+      return lastResult;
+    }
+    lastInputs = values;
+
+    const result = combiner(...(values as SelectorResults<I>));
+    recomputations++;
+
+    if (!hasResult || !resultEqualityFn || !resultEqualityFn(lastResult, result)) {
+      lastResult = result;
+    }
+    hasResult = true;
+    return lastResult;
+  }) as MemoizedSelector<T, R>;
+
+  selector.recomputations = () => recomputations;
+  selector.clearCache = () => {
+    hasResult = false;
+    lastInputs = [];
+  };
+
+  return selector;
+}
+
+/**
+ * Create a selector factory such as `selectTodoById(id)`. Each argument gets
+ * its own memoized selector, kept in an LRU cache.
+ */
+export function createParameterizedSelector<I extends readonly ParameterizedInput[], R>(
+  inputs: [...I],
+  combiner: (...values: SelectorResults<I>) => R,
+  options: ParameterizedSelectorOptions<R> = {}
+): ParameterizedSelector<InputState<I>, InputArg<I>, R> {
+  type T = InputState<I>;
+  type A = InputArg<I>;
+  const { maxSize = 50, ...selectorOptions } = options;
+  const cache = new Map<A, MemoizedSelector<T, R>>();
+
+  const factory = ((arg: A): MemoizedSelector<T, R> => {
+    const cached = cache.get(arg);
+    if (cached) {
+      // Move to end (LRU)
+      cache.delete(arg);
+      cache.set(arg, cached);
+      return cached;
+    }
+
+    if (cache.size >= maxSize) {
+      const firstKey = cache.keys().next().value;
+      cache.delete(firstKey as A);
+    }
+
+    const bound = inputs.map(input => (state: T) => input(state, arg));
+    const selector = createSelector<InputSelector<T>[], R>(bound, combiner as any, selectorOptions);
+    cache.set(arg, selector);
+    return selector;
+  }) as ParameterizedSelector<T, A, R>;
+
+  factory.clearCache = () => {
+    cache.clear();
+  };
+
+  return factory;
+}
@@ -0,0 +1,87 @@
+import { createStore, setStoreFactory, type Store, type StoreConfig } from './store';
+
+export interface PayloadAction<P = undefined> {
+  type: string;
+  payload: P;
+}
+
+type SliceReducer<T, P = any> = (state: T, action: PayloadAction<P>) => T | Partial<T>;
+
+type PayloadOf<R> = R extends (...args: any[]) => any
+  ? Parameters<R>[1] extends PayloadAction<infer P> ? P : undefined
+  : never;
+
+export type ActionCreator<P> = ([P] extends [undefined]
+  ? () => PayloadAction<undefined>
+  : (payload: P) => PayloadAction<P>) & { type: string };
+
+export type SliceActions<R> = {
+  [K in keyof R]: ActionCreator<PayloadOf<R[K]>>;
+};
+
+export interface SliceStore<T> extends Store<T> {
+  dispatch(action: PayloadAction<any>): void;
+}
+
+export interface SliceConfig<T, R extends Record<string, SliceReducer<T>>>
+  extends Omit<StoreConfig<T>, 'name'> {
+  name: string;
+  reducers: R;
+}
+
+export interface Slice<T, R> {
+  name: string;
+  actions: SliceActions<R>;
+  reducer: (state: T, action: PayloadAction<any>) => T;
+  store: SliceStore<T>;
+}
+
+export function createSlice<T extends object, R extends Record<string, SliceReducer<T>>>(
+  config: SliceConfig<T, R>
+): Slice<T, R> {
+  const { name, reducers, ...storeConfig } = config;
+  const handlers = new Map<string, SliceReducer<T>>();
+  const actions = {} as Record<string, ActionCreator<any>>;
+
+  Object.keys(reducers).forEach(key => {
+    const type = `${name}/${key}`;
+    handlers.set(type, reducers[key]);
+    actions[key] = Object.assign(
+      (payload?: any) => ({ type, payload }),
+      { type }
+    ) as ActionCreator<any>;
+  });
+
+  function reducer(state: T, action: PayloadAction<any>): T {
+    const handler = handlers.get(action.type);
+    if (!handler) return state;
+
+    const result = handler(state, action);
+    return typeof result === 'object' && result !== null
+      ? { ...state, ...result }
+      : result as T;
+  }
+
+  const store = createStore({ ...storeConfig, name });
+
+  const sliceStore = Object.assign(store, {
+    dispatch(action: PayloadAction<any>) {
+      if (!handlers.has(action.type)) {
+        console.warn(`[Slice:${name}] Unknown action type: ${action.type}`);
+        return;
+      }
+      store.setState(prev => reducer(prev, action), action);
+    }
+  });
+
+  setStoreFactory(sliceStore, name, (initialState = config.initialState) =>
+    createSlice({ ...config, initialState }).store
+  );
+
+  return {
+    name,
+    actions: actions as SliceActions<R>,
+    reducer,
+    store: sliceStore
+  };
+}
@@ -0,0 +1,104 @@
+/** Promise-based storage, e.g. IndexedDB, React Native AsyncStorage or files on the server */
+export interface AsyncStorage {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+/** A Web Storage such as localStorage, or an AsyncStorage */
+export type PersistStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'> | AsyncStorage;
+
+export interface IndexedDBStorageOptions {
+  dbName?: string;
+  storeName?: string;
+  /** Defaults to the global indexedDB */
+  indexedDB?: IDBFactory;
+}
+
+/**
+ * AsyncStorage backed by an IndexedDB object store. The database is opened
+ * on first use, and upgraded when another adapter created it without this
+ * object store.
+ */
+export function createIndexedDBStorage(options: IndexedDBStorageOptions = {}): AsyncStorage {
+  const {
+    dbName = 'least',
+    storeName = 'persist',
+    indexedDB: factory = typeof indexedDB !== 'undefined' ? indexedDB : undefined
+  } = options;
+  let database: Promise<IDBDatabase> | null = null;
+
+  // Opens the current version unless one is given
+  function openVersion(factory: IDBFactory, version?: number): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+      const request = factory.open(dbName, version);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(storeName)) {
+          request.result.createObjectStore(storeName);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async function connect(factory: IDBFactory): Promise<IDBDatabase> {
+    let db = await openVersion(factory);
+    while (!db.objectStoreNames.contains(storeName)) {
+      const version = db.version + 1;
+      db.close();
+      db = await openVersion(factory, version);
+    }
+
+    // Step aside when another adapter upgrades the database, and reopen on next use
+    db.onversionchange = () => {
+      db.close();
+      database = null;
+    };
+    return db;
+  }
+
+  function open(): Promise<IDBDatabase> {
+    if (!database) {
+      database = factory
+        ? connect(factory)
+        : Promise.reject(new Error('[IndexedDBStorage] indexedDB is not available'));
+
+      // Let a later call retry, e.g. after the user unblocked storage
+      database.catch(() => {
+        database = null;
+      });
+    }
+    return database;
+  }
+
+  async function run<R>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<R>
+  ): Promise<R> {
+    const db = await open();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode);
+      const request = operation(transaction.objectStore(storeName));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error || request.error);
+      transaction.onabort = () => reject(transaction.error || new Error('[IndexedDBStorage] Transaction aborted'));
+    });
+  }
+
+  return {
+    async getItem(key: string) {
+      const value = await run('readonly', store => store.get(key));
+      return typeof value === 'string' ? value : null;
+    },
+
+    async setItem(key: string, value: string) {
+      await run('readwrite', store => store.put(value, key));
+    },
+
+    async removeItem(key: string) {
+      await run('readwrite', store => store.delete(key));
+    }
+  };
+}
@@ -1,24 +1,144 @@
-import { scheduleBatch } from './batch';
+import { scheduleBatch, batch, currentBatchFlow, isInBatchFlow, type BatchScheduler } from './batch';
 import { shallowEqual } from '../utils/equality';
+import { produce } from '../utils/produce';
+import { parsePath, getPath } from '../utils/path';
+import { watchStore, type WatchEffect, type WatchOptions } from './watch';
+import { devToolsMiddleware, type DevToolsOptions } from './devtools';
+import { registerStore, unregisterStore } from './registry';
+import { createProfiler, type ProfileOptions, type StoreProfile } from './profile';
 
-type Listener<T> = (state: T, prevState: T) => void;
+/** How a change was made; a batch reports the strongest mode it contains */
+export type UpdateMode = 'merge' | 'replace' | 'reset';
+
+export interface ChangeInfo {
+  mode: UpdateMode;
+}
+
+type Listener<T> = (state: T, prevState: T, info: ChangeInfo) => void;
+type SliceListener<R> = (value: R, prevValue: R, info: ChangeInfo) => void;
 type Selector<T, R> = (state: T) => R;
 type Unsubscribe = () => void;
-type StateUpdater<T> = Partial<T> | ((prev: T) => T | Partial<T>);
+export type StateUpdater<T> = Partial<T> | ((prev: T) => T | Partial<T>);
+
+export interface StoreAction {
+  type: string;
+  payload?: any;
+}
+
+export interface MiddlewareContext<T> {
+  store: Store<T>;
+  prevState: T;
+  nextState: T;
+  updater: StateUpdater<T>;
+  action?: StoreAction;
+  mode: UpdateMode;
+  /** Run `callback` with the new state once this update commits, however late a later middleware lets it through */
+  onCommit(callback: (state: T) => void): void;
+}
+
+/**
+ * Wraps every setState call. Call `next()` to continue with the proposed
+ * state, `next(state)` to transform it, or never call it to veto the update.
+ * `next` may also be called later to defer the write.
+ */
+export interface StoreMiddleware<T> {
+  (context: MiddlewareContext<T>, next: (nextState?: T) => void): void;
+  /** Runs once when added to a store; the returned teardown runs on removal or destroy */
+  attach?: (store: Store<T>) => void | (() => void);
+}
+
+export type StoreStatus = 'loading' | 'ready' | 'error';
+
+/** A state, a factory, or an async loader such as an API call or IndexedDB read */
+export type StoreInitializer<T> = T | (() => T | Promise<T>);
 
 export interface StoreConfig<T> {
-  initialState: T;
+  initialState: StoreInitializer<T>;
+  /** State exposed by getState() while an async initialState is loading; required for async loaders */
+  placeholder?: T;
   name?: string;
   equalityFn?: (a: T, b: T) => boolean;
+  middleware?: StoreMiddleware<T>[];
+  /** When listeners hear about changes; defaults to the global batch scheduler */
+  scheduler?: BatchScheduler;
+  /** Connect to Redux DevTools when the extension is installed */
+  devtools?: boolean | DevToolsOptions<T>;
+  /** Record listener timings and update call sites, read with getProfile() */
+  profile?: boolean | ProfileOptions;
 }
 
 export interface Store<T> {
   getState(): T;
-  setState(updater: StateUpdater<T>): void;
+  setState(updater: StateUpdater<T>, action?: StoreAction): void;
+  /** Swap in a whole new state instead of merging, so keys can be removed */
+  replaceState(nextState: T, action?: StoreAction): void;
+  /** Replace the state with the initial state */
+  reset(): void;
+  /** The initial state, once an async initialState has loaded */
+  getInitialState(): T;
+  /** Update by mutating a copy-on-write draft; untouched branches are shared */
+  produce(recipe: (draft: T) => T | void, action?: StoreAction): void;
+  /**
+   * Apply updates atomically. If `fn` throws or its promise rejects the keys
+   * it wrote are restored, and listeners never see the intermediate states.
+   */
+  transaction<R>(fn: () => R): R;
   subscribe(listener: Listener<T>): Unsubscribe;
+  /** Only notified when the value at the dot-separated key path changes */
+  subscribe<V = any>(path: string, listener: SliceListener<V>): Unsubscribe;
+  subscribeTo<R>(
+    selector: Selector<T, R>,
+    listener: SliceListener<R>,
+    equalityFn?: (a: R, b: R) => boolean
+  ): Unsubscribe;
   select<R>(selector: Selector<T, R>, equalityFn?: (a: R, b: R) => boolean): R;
+  watch<R>(selector: Selector<T, R>, effect: WatchEffect<R>, options?: WatchOptions<R>): Unsubscribe;
+  use(middleware: StoreMiddleware<T>): Unsubscribe;
+  getStatus(): StoreStatus;
+  /** The error an async initialState failed with, if any */
+  getError(): unknown;
+  /** Resolves once an async initialState has loaded, rejects if it failed */
+  ready(): Promise<void>;
   destroy(): void;
   getListenerCount(): number;
+  /** Null unless the store was created with `profile` */
+  getProfile(): StoreProfile | null;
+}
+
+interface OpenTransaction {
+  snapshot: any;
+  /** The batch flow it runs in; undefined when flows can't be told apart */
+  flow: object | undefined;
+  /** Top-level keys it changed */
+  written: Set<PropertyKey>;
+}
+
+function isRecord(value: unknown): value is Record<PropertyKey, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+const WHOLE_STATE = Symbol('wholeState');
+
+function changedKeys(prevState: unknown, nextState: unknown): PropertyKey[] {
+  if (!isRecord(prevState) || !isRecord(nextState)) return [WHOLE_STATE];
+
+  const keys = new Set<PropertyKey>([...Object.keys(prevState), ...Object.keys(nextState)]);
+  return Array.from(keys).filter(key => !Object.is(prevState[key as string], nextState[key as string]));
+}
+
+// Undo the keys a transaction wrote, keeping the rest of `state`
+function revertWrites<T>(state: T, snapshot: T, written: Set<PropertyKey>): T {
+  if (written.has(WHOLE_STATE) || !isRecord(state) || !isRecord(snapshot)) return snapshot;
+
+  const reverted: Record<PropertyKey, unknown> = { ...state };
+  written.forEach(key => {
+    if (key in snapshot) {
+      reverted[key as string] = snapshot[key as string];
+    } else {
+      delete reverted[key as string];
+    }
+  });
+  return shallowEqual(reverted, snapshot) ? snapshot : reverted as T;
 }
 
 // LRU Cache for selectors
@@ -62,47 +182,290 @@ class SelectorCache<T> {
   }
 }
 
+const MODE_RANK: Record<UpdateMode, number> = { merge: 0, replace: 1, reset: 2 };
+
+// Maps a module-level store to the instance it should use, e.g. a scope's
+export type StoreResolver = <S extends Store<any>>(store: S) => S;
+
+// Recreates a store from its definition, used for per-request scoping
+export type StoreFactory<T> = (initialState?: StoreInitializer<T>, resolve?: StoreResolver) => Store<T>;
+
+export interface StoreFactoryEntry<T> {
+  name?: string;
+  create: StoreFactory<T>;
+  /** Computed from other stores, so there is no state of its own to dehydrate */
+  derived?: boolean;
+}
+
+const storeFactories = new WeakMap<Store<any>, StoreFactoryEntry<any>>();
+
+export function setStoreFactory<T>(
+  store: Store<T>,
+  name: string | undefined,
+  create: StoreFactory<T>,
+  derived = false
+): void {
+  storeFactories.set(store, { name, create, derived });
+}
+
+export function getStoreFactory<T>(store: Store<T>): StoreFactoryEntry<T> | undefined {
+  return storeFactories.get(store);
+}
+
 export function createStore<T extends object>(config: StoreConfig<T>): Store<T> {
-  let state = config.initialState;
+  let state: T;
+  let initialState: T;
+  let status: StoreStatus = 'ready';
+  let readyPromise: Promise<void> = Promise.resolve();
+  let loadError: unknown = null;
   let isDestroyed = false;
   const listeners = new Set<Listener<T>>();
+  // Path listeners are grouped so each path is compared once per notification
+  const pathListeners = new Map<string, { segments: string[]; listeners: Set<SliceListener<any>> }>();
+  const selectorListeners = new Set<{
+    selector: Selector<T, any>;
+    listener: SliceListener<any>;
+    equalityFn: (a: any, b: any) => boolean;
+    value: any;
+  }>();
   const selectorCache = new SelectorCache<T>(50);
   const equalityFn = config.equalityFn || shallowEqual;
+  const middleware: StoreMiddleware<T>[] = [];
+  const watchers = new Set<Unsubscribe>();
+  const teardowns = new Map<StoreMiddleware<T>, () => void>();
   
   // Track if we have a pending notification to avoid duplicates
   let hasPendingNotification = false;
   let notificationPrevState: T | null = null;
+  let notificationMode: UpdateMode = 'merge';
+  // Open transactions hold notifications, even from a batch timeout or
+  // another async flow, until they commit or roll back
+  const openTransactions = new Set<OpenTransaction>();
+  const profiler = config.profile
+    ? createProfiler(config.name || 'unnamed', config.profile === true ? {} : config.profile)
+    : null;
+
+  function reportListenerError(error: unknown): void {
+    console.error(`[Store:${config.name || 'unnamed'}] Listener error:`, error);
+  }
 
-  function notifyListeners(prevState: T, nextState: T): void {
+  function callListener<V>(
+    listener: (next: V, prev: V, info: ChangeInfo) => void,
+    next: V,
+    prev: V,
+    info: ChangeInfo
+  ): void {
+    try {
+      if (profiler) {
+        profiler.timeListener(listener, () => listener(next, prev, info));
+      } else {
+        listener(next, prev, info);
+      }
+    } catch (error) {
+      reportListenerError(error);
+    }
+  }
+
+  function notifyListeners(prevState: T, nextState: T, info: ChangeInfo): void {
     listeners.forEach(listener => {
+      callListener(listener, nextState, prevState, info);
+    });
+
+    pathListeners.forEach(group => {
+      const value = getPath(nextState, group.segments);
+      const prevValue = getPath(prevState, group.segments);
+      if (Object.is(value, prevValue)) return;
+
+      group.listeners.forEach(listener => {
+        callListener(listener, value, prevValue, info);
+      });
+    });
+
+    selectorListeners.forEach(entry => {
+      let value: any;
       try {
-        listener(nextState, prevState);
+        value = entry.selector(nextState);
+        if (entry.equalityFn(entry.value, value)) return;
       } catch (error) {
-        console.error(`[Store:${config.name || 'unnamed'}] Listener error:`, error);
+        // A throwing selector is a broken listener, not a failed write
+        reportListenerError(error);
+        return;
       }
+
+      const prevValue = entry.value;
+      entry.value = value;
+      callListener(entry.listener, value, prevValue, info);
     });
   }
 
-  function notify(prevState: T): void {
+  function subscribePath(path: string, listener: SliceListener<any>): Unsubscribe {
+    let group = pathListeners.get(path);
+    if (!group) {
+      group = { segments: parsePath(path), listeners: new Set() };
+      pathListeners.set(path, group);
+    }
+    group.listeners.add(listener);
+
+    return () => {
+      const current = pathListeners.get(path);
+      if (current && current.listeners.delete(listener) && current.listeners.size === 0) {
+        pathListeners.delete(path);
+      }
+    };
+  }
+
+  function flushNotification(): void {
+    if (!hasPendingNotification || openTransactions.size > 0) return;
+
+    hasPendingNotification = false;
+    // Use the original prevState from when batching started
+    const batchPrevState = notificationPrevState!;
+    const mode = notificationMode;
+    notificationPrevState = null;
+    notificationMode = 'merge';
+    // A rolled back transaction leaves nothing to report
+    if (batchPrevState === state) return;
+
+    if (profiler) {
+      profiler.timeNotification(() => notifyListeners(batchPrevState, state, { mode }));
+    } else {
+      notifyListeners(batchPrevState, state, { mode });
+    }
+  }
+
+  function notify(prevState: T, mode: UpdateMode): void {
     if (isDestroyed) return;
-    
-    // If we don't have a pending notification, schedule one
+
+    if (MODE_RANK[mode] > MODE_RANK[notificationMode]) {
+      notificationMode = mode;
+    }
+
+    // Only capture the FIRST prevState in a batch
     if (!hasPendingNotification) {
       hasPendingNotification = true;
       notificationPrevState = prevState;
-      
-      scheduleBatch(() => {
-        hasPendingNotification = false;
-        // Use the original prevState from when batching started
-        notifyListeners(notificationPrevState!, state);
-        notificationPrevState = null;
-      });
     }
-    // If we already have a pending notification, it will use the latest state
-    // when it executes, so we don't need to schedule another one
+
+    // Scheduled on every change: an update outside the async batch holding
+    // the notification delivers it now, and the batch's own flush is a no-op
+    scheduleBatch(flushNotification, config.scheduler);
   }
 
-  return {
+  function commit(nextState: T, mode: UpdateMode = 'merge'): boolean {
+    if (isDestroyed) return false;
+
+    const prevState = state;
+
+    // Skip if no change
+    if (equalityFn(prevState, nextState)) {
+      return false;
+    }
+
+    state = nextState;
+    selectorCache.invalidate();
+    trackTransactionWrites(prevState, nextState);
+    notify(prevState, mode);
+    return true;
+  }
+
+  // Without a batch flow every write counts, as flows can't be told apart
+  function trackTransactionWrites(prevState: T, nextState: T): void {
+    openTransactions.forEach(open => {
+      if (open.flow && !isInBatchFlow(open.flow)) return;
+      changedKeys(prevState, nextState).forEach(key => open.written.add(key));
+    });
+  }
+
+  function runMiddleware(
+    chain: StoreMiddleware<T>[],
+    index: number,
+    context: MiddlewareContext<T>,
+    committed: ((state: T) => void)[]
+  ): void {
+    if (index === chain.length) {
+      if (commit(context.nextState, context.mode)) {
+        committed.forEach(callback => callback(state));
+      }
+      return;
+    }
+
+    let called = false;
+    chain[index](context, (nextState = context.nextState) => {
+      if (called) return;
+      called = true;
+      runMiddleware(chain, index + 1, { ...context, nextState }, committed);
+    });
+  }
+
+  function removeMiddleware(mw: StoreMiddleware<T>): void {
+    const index = middleware.indexOf(mw);
+    if (index === -1) return;
+
+    middleware.splice(index, 1);
+    const teardown = teardowns.get(mw);
+    teardowns.delete(mw);
+    teardown?.();
+  }
+
+  function update(
+    updater: StateUpdater<T>,
+    nextState: T,
+    action?: StoreAction,
+    mode: UpdateMode = 'merge'
+  ): void {
+    profiler?.recordUpdate();
+
+    if (middleware.length === 0) {
+      commit(nextState, mode);
+      return;
+    }
+
+    const committed: ((state: T) => void)[] = [];
+    runMiddleware(middleware.slice(), 0, {
+      store,
+      prevState: state,
+      nextState,
+      updater,
+      action,
+      mode,
+      onCommit: callback => committed.push(callback)
+    }, committed);
+  }
+
+  // Goes through middleware like any write, so they don't keep reporting
+  // states that never stuck. Writes from other flows are kept.
+  function rollback(open: OpenTransaction): void {
+    if (isDestroyed) return;
+
+    const restored = revertWrites(state, open.snapshot, open.written);
+    if (restored === state) return;
+
+    // Skipped on flush unless listeners already saw a state being undone
+    update(restored, restored, { type: '@@transaction/rollback' }, 'replace');
+  }
+
+  // Keys set while an async initialState was loading keep their new values
+  function withWritesWhileLoading(loaded: T, placeholder: T): T {
+    if (state === placeholder) return loaded;
+
+    const merged = { ...loaded };
+    (Object.keys(state) as (keyof T)[]).forEach(key => {
+      if (!Object.is(state[key], placeholder[key])) {
+        merged[key] = state[key];
+      }
+    });
+    return merged;
+  }
+
+  function endTransaction(open: OpenTransaction): void {
+    openTransactions.delete(open);
+    // The flush scheduled by a held write may already have run and been skipped
+    if (openTransactions.size === 0 && hasPendingNotification) {
+      scheduleBatch(flushNotification, config.scheduler);
+    }
+  }
+
+  const store: Store<T> = {
     getState() {
       if (isDestroyed) {
         throw new Error(`[Store:${config.name}] Cannot getState on destroyed store`);
@@ -110,13 +473,12 @@ export function createStore<T extends object>(config: StoreConfig<T>): Store<T>
       return state;
     },
 
-    setState(updater: StateUpdater<T>) {
+    setState(updater: StateUpdater<T>, action?: StoreAction) {
       if (isDestroyed) {
         console.warn(`[Store:${config.name}] Cannot setState on destroyed store`);
         return;
       }
 
-      const prevState = state;
       let nextState: T;
 
       if (typeof updater === 'function') {
@@ -128,25 +490,81 @@ export function createStore<T extends object>(config: StoreConfig<T>): Store<T>
         nextState = { ...state, ...updater };
       }
 
-      // Skip if no change
-      if (equalityFn(prevState, nextState)) {
+      update(updater, nextState, action);
+    },
+
+    replaceState(nextState: T, action?: StoreAction) {
+      if (isDestroyed) {
+        console.warn(`[Store:${config.name}] Cannot replaceState on destroyed store`);
         return;
       }
 
-      state = nextState;
-      selectorCache.invalidate();
-      
-      // Only capture the FIRST prevState in a batch
-      if (!hasPendingNotification) {
-        notify(prevState);
+      update(nextState, nextState, action, 'replace');
+    },
+
+    reset() {
+      if (isDestroyed) {
+        console.warn(`[Store:${config.name}] Cannot reset destroyed store`);
+        return;
       }
+
+      update(initialState, initialState, { type: '@@reset' }, 'reset');
+    },
+
+    getInitialState(): T {
+      return initialState;
     },
 
-    subscribe(listener: Listener<T>): Unsubscribe {
+    produce(recipe: (draft: T) => T | void, action?: StoreAction) {
+      if (isDestroyed) {
+        console.warn(`[Store:${config.name}] Cannot produce on destroyed store`);
+        return;
+      }
+
+      update(prev => produce(prev, recipe), produce(state, recipe), action);
+    },
+
+    transaction<R>(fn: () => R): R {
+      return batch(() => {
+        const open: OpenTransaction = { snapshot: state, flow: currentBatchFlow(), written: new Set() };
+        openTransactions.add(open);
+        try {
+          const result = fn();
+
+          if (result instanceof Promise) {
+            return result.then(
+              value => {
+                endTransaction(open);
+                return value;
+              },
+              error => {
+                rollback(open);
+                endTransaction(open);
+                throw error;
+              }
+            ) as R;
+          }
+
+          endTransaction(open);
+          return result;
+        } catch (error) {
+          rollback(open);
+          endTransaction(open);
+          throw error;
+        }
+      });
+    },
+
+    subscribe(pathOrListener: string | Listener<T>, pathListener?: SliceListener<any>): Unsubscribe {
       if (isDestroyed) {
         throw new Error(`[Store:${config.name}] Cannot subscribe to destroyed store`);
       }
 
+      if (typeof pathOrListener === 'string') {
+        return subscribePath(pathOrListener, pathListener!);
+      }
+
+      const listener = pathOrListener;
       listeners.add(listener);
 
       return () => {
@@ -154,6 +572,28 @@ export function createStore<T extends object>(config: StoreConfig<T>): Store<T>
       };
     },
 
+    subscribeTo<R>(
+      selector: Selector<T, R>,
+      listener: SliceListener<R>,
+      selectorEqualityFn: (a: R, b: R) => boolean = Object.is
+    ): Unsubscribe {
+      if (isDestroyed) {
+        throw new Error(`[Store:${config.name}] Cannot subscribe to destroyed store`);
+      }
+
+      const entry = {
+        selector,
+        listener,
+        equalityFn: selectorEqualityFn,
+        value: selector(state)
+      };
+      selectorListeners.add(entry);
+
+      return () => {
+        selectorListeners.delete(entry);
+      };
+    },
+
     select<R>(selector: Selector<T, R>): R {
       if (isDestroyed) {
         throw new Error(`[Store:${config.name}] Cannot select on destroyed store`);
@@ -169,16 +609,126 @@ export function createStore<T extends object>(config: StoreConfig<T>): Store<T>
       return result;
     },
 
+    watch<R>(selector: Selector<T, R>, effect: WatchEffect<R>, options?: WatchOptions<R>): Unsubscribe {
+      if (isDestroyed) {
+        throw new Error(`[Store:${config.name}] Cannot watch destroyed store`);
+      }
+
+      const stop = watchStore(store, selector, effect, options);
+      watchers.add(stop);
+
+      return () => {
+        watchers.delete(stop);
+        stop();
+      };
+    },
+
+    use(mw: StoreMiddleware<T>): Unsubscribe {
+      if (isDestroyed) {
+        throw new Error(`[Store:${config.name}] Cannot add middleware to destroyed store`);
+      }
+
+      middleware.push(mw);
+      const teardown = mw.attach?.(store);
+      if (teardown) {
+        teardowns.set(mw, teardown);
+      }
+
+      return () => removeMiddleware(mw);
+    },
+
+    getStatus(): StoreStatus {
+      return status;
+    },
+
+    getError(): unknown {
+      return loadError;
+    },
+
+    ready(): Promise<void> {
+      return readyPromise;
+    },
+
     destroy() {
       if (isDestroyed) return;
       
+      watchers.forEach(stop => stop());
+      watchers.clear();
+      middleware.slice().reverse().forEach(removeMiddleware);
       isDestroyed = true;
+      if (config.name) {
+        unregisterStore(config.name, store);
+      }
       listeners.clear();
+      pathListeners.clear();
+      selectorListeners.clear();
       selectorCache.clear();
     },
 
     getListenerCount(): number {
-      return listeners.size;
+      let count = listeners.size + selectorListeners.size;
+      pathListeners.forEach(group => {
+        count += group.listeners.size;
+      });
+      return count;
+    },
+
+    getProfile(): StoreProfile | null {
+      return profiler ? profiler.getProfile() : null;
     }
   };
+
+  const initial = typeof config.initialState === 'function'
+    ? (config.initialState as () => T | Promise<T>)()
+    : config.initialState;
+
+  if (initial instanceof Promise) {
+    if (config.placeholder === undefined) {
+      initial.catch(() => {});
+      throw new Error(`[Store:${config.name || 'unnamed'}] An async initialState needs a placeholder`);
+    }
+
+    const placeholder = config.placeholder;
+    status = 'loading';
+    state = placeholder;
+    initialState = placeholder;
+    readyPromise = initial.then(
+      loaded => {
+        if (isDestroyed) return;
+        status = 'ready';
+        initialState = loaded;
+        commit(withWritesWhileLoading(loaded, placeholder), 'replace');
+      },
+      error => {
+        status = 'error';
+        loadError = error;
+        console.error(`[Store:${config.name || 'unnamed'}] Failed to load initial state:`, error);
+        throw error;
+      }
+    );
+    // Callers of ready() handle the rejection; don't report it as unhandled
+    readyPromise.catch(() => {});
+  } else {
+    state = initial;
+    initialState = initial;
+  }
+
+  setStoreFactory(store, config.name, (initialState = config.initialState) =>
+    createStore({ ...config, initialState })
+  );
+
+  if (config.name) {
+    registerStore(config.name, store);
+  }
+
+  config.middleware?.forEach(mw => store.use(mw));
+
+  if (config.devtools) {
+    store.use(devToolsMiddleware({
+      name: config.name,
+      ...(typeof config.devtools === 'object' ? config.devtools : {})
+    }));
+  }
+
+  return store;
 }
\ No newline at end of file
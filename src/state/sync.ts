@@ -0,0 +1,134 @@
+import type { Store, StoreMiddleware } from './store';
+
+interface BroadcastChannelLike {
+  postMessage(message: any): void;
+  close(): void;
+  onmessage: ((event: { data: any }) => void) | null;
+}
+
+interface SyncMessage<T> {
+  source: string;
+  timestamp: number;
+  patch: Partial<T>;
+}
+
+export interface ConflictInfo {
+  localUpdatedAt: number;
+  remoteUpdatedAt: number;
+}
+
+export interface TabSyncOptions<T> {
+  channel: string;
+  /** Keys to share; all keys by default */
+  include?: (keyof T)[];
+  /** Last writer wins per key by default */
+  conflict?: (local: T, incoming: Partial<T>, info: ConflictInfo) => Partial<T>;
+}
+
+let tabCounter = 0;
+
+/**
+ * Broadcast store changes to other tabs and apply theirs. Incoming changes are
+ * not echoed back. Stops on the returned cleanup or when the store is destroyed.
+ */
+export function syncAcrossTabs<T extends object>(
+  store: Store<T>,
+  options: TabSyncOptions<T>
+): () => void {
+  const Channel = (globalThis as any).BroadcastChannel as
+    (new (name: string) => BroadcastChannelLike) | undefined;
+
+  if (!Channel) {
+    console.warn('[TabSync] BroadcastChannel is not available');
+    return () => {};
+  }
+
+  const { channel: channelName, include, conflict } = options;
+  const tabId = `${Date.now().toString(36)}-${++tabCounter}-${Math.random().toString(36).slice(2)}`;
+  // Last value sent or received per key; anything else is a local change
+  const synced = new Map<keyof T, unknown>();
+  const updatedAt = new Map<keyof T, number>();
+
+  function keysOf(state: T): (keyof T)[] {
+    return include || (Object.keys(state) as (keyof T)[]);
+  }
+
+  function resolve(message: SyncMessage<T>): Partial<T> {
+    const incoming = message.patch;
+    let localUpdatedAt = 0;
+    (Object.keys(incoming) as (keyof T)[]).forEach(key => {
+      localUpdatedAt = Math.max(localUpdatedAt, updatedAt.get(key) || 0);
+    });
+
+    if (conflict) {
+      return conflict(store.getState(), incoming, {
+        localUpdatedAt,
+        remoteUpdatedAt: message.timestamp
+      });
+    }
+
+    const accepted: Partial<T> = {};
+    (Object.keys(incoming) as (keyof T)[]).forEach(key => {
+      if ((updatedAt.get(key) || 0) <= message.timestamp) {
+        accepted[key] = incoming[key];
+      }
+    });
+    return accepted;
+  }
+
+  const middleware: StoreMiddleware<T> = (_context, next) => next();
+
+  middleware.attach = (target) => {
+    const channel = new Channel(channelName);
+
+    keysOf(target.getState()).forEach(key => {
+      synced.set(key, target.getState()[key]);
+    });
+
+    const unsubscribe = target.subscribe(state => {
+      const patch: Partial<T> = {};
+      let changed = false;
+      const now = Date.now();
+
+      keysOf(state).forEach(key => {
+        if (!Object.is(state[key], synced.get(key))) {
+          patch[key] = state[key];
+          synced.set(key, state[key]);
+          updatedAt.set(key, now);
+          changed = true;
+        }
+      });
+
+      if (!changed) return;
+
+      try {
+        channel.postMessage({ source: tabId, timestamp: now, patch });
+      } catch (error) {
+        console.error('[TabSync] Failed to broadcast state:', error);
+      }
+    });
+
+    channel.onmessage = (event) => {
+      const message = event.data as SyncMessage<T>;
+      if (!message || message.source === tabId || !message.patch) return;
+
+      const accepted = resolve(message);
+      const keys = Object.keys(accepted) as (keyof T)[];
+      if (keys.length === 0) return;
+
+      keys.forEach(key => {
+        synced.set(key, accepted[key]);
+        updatedAt.set(key, message.timestamp);
+      });
+      target.setState(accepted, { type: '@@sync/remote', payload: accepted });
+    };
+
+    return () => {
+      unsubscribe();
+      channel.onmessage = null;
+      channel.close();
+    };
+  };
+
+  return store.use(middleware);
+}
@@ -0,0 +1,15 @@
+import type { Store } from './store';
+
+/**
+ * Run `fn` as a transaction across several stores. If it throws or its
+ * promise rejects, the keys it wrote are restored in every store. Without
+ * setBatchContextStorage(), writes from elsewhere during an async transaction
+ * count as its own and are rolled back too.
+ */
+export function transaction<R>(stores: Store<any>[], fn: () => R): R {
+  const run = stores.reduceRight<() => R>(
+    (inner, store) => () => store.transaction(inner),
+    fn
+  );
+  return run();
+}
@@ -0,0 +1,97 @@
+import type { Store } from './store';
+
+type Cleanup = () => void;
+
+export interface WatchContext {
+  /** Aborted when a newer change arrives or the watcher stops */
+  signal: AbortSignal;
+}
+
+export type WatchEffect<R> = (
+  value: R,
+  prevValue: R | undefined,
+  context: WatchContext
+) => void | Cleanup | Promise<void | Cleanup>;
+
+export interface WatchOptions<R> {
+  immediate?: boolean;
+  equalityFn?: (a: R, b: R) => boolean;
+}
+
+/**
+ * Run `effect` whenever the selected value changes. The cleanup returned by
+ * the previous run is called before the next run and when the watcher stops.
+ */
+export function watchStore<T, R>(
+  store: Pick<Store<T>, 'getState' | 'subscribeTo'>,
+  selector: (state: T) => R,
+  effect: WatchEffect<R>,
+  options: WatchOptions<R> = {}
+): () => void {
+  const { immediate = false, equalityFn = Object.is } = options;
+  let cleanup: Cleanup | undefined;
+  let controller: AbortController | null = null;
+  let stopped = false;
+
+  function runCleanup(fn: Cleanup | undefined): void {
+    try {
+      fn?.();
+    } catch (error) {
+      console.error('[Watch] Cleanup error:', error);
+    }
+  }
+
+  function run(value: R, prevValue: R | undefined): void {
+    controller?.abort();
+    const previousCleanup = cleanup;
+    cleanup = undefined;
+    runCleanup(previousCleanup);
+
+    const current = new AbortController();
+    controller = current;
+
+    try {
+      const result = effect(value, prevValue, { signal: current.signal });
+
+      if (result instanceof Promise) {
+        result.then(
+          asyncCleanup => {
+            if (typeof asyncCleanup !== 'function') return;
+            // A newer run already started, so this one is stale
+            if (current.signal.aborted) {
+              runCleanup(asyncCleanup);
+            } else {
+              cleanup = asyncCleanup;
+            }
+          },
+          error => {
+            if (!current.signal.aborted) {
+              console.error('[Watch] Effect error:', error);
+            }
+          }
+        );
+      } else if (typeof result === 'function') {
+        cleanup = result;
+      }
+    } catch (error) {
+      console.error('[Watch] Effect error:', error);
+    }
+  }
+
+  const unsubscribe = store.subscribeTo(selector, run, equalityFn);
+
+  if (immediate) {
+    run(selector(store.getState()), undefined);
+  }
+
+  return () => {
+    if (stopped) return;
+
+    stopped = true;
+    unsubscribe();
+    controller?.abort();
+    const lastCleanup = cleanup;
+    cleanup = undefined;
+    runCleanup(lastCleanup);
+  };
+}
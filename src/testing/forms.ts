@@ -0,0 +1,88 @@
+import { VALIDATION_DEBOUNCE_MS, type FormControl } from '../forms/control';
+
+export interface FormControlDriverOptions {
+  /**
+   * Advance fake timers, e.g. `ms => jest.advanceTimersByTime(ms)`. Without
+   * it the driver waits in real time.
+   */
+  advanceTimers?: (ms: number) => unknown;
+  /** Give up on pending validation after this many ms (default 1000) */
+  timeout?: number;
+}
+
+export interface FormControlDriver<T> {
+  readonly control: FormControl<T>;
+  /** Set the value as a user would, then wait out debounced validation */
+  type(value: T): Promise<void>;
+  /** Touch the control, validating in 'blur' mode */
+  blur(): Promise<void>;
+  /** Touch and validate regardless of mode */
+  submit(): Promise<void>;
+  /** Wait until no validation is scheduled or running */
+  settle(): Promise<void>;
+}
+
+const POLL_MS = 10;
+
+async function flushMicrotasks(): Promise<void> {
+  for (let i = 0; i < 10; i++) {
+    await Promise.resolve();
+  }
+}
+
+/**
+ * Drive a FormControl through user interactions, with or without fake timers
+ */
+export function driveFormControl<T>(
+  control: FormControl<T>,
+  options: FormControlDriverOptions = {}
+): FormControlDriver<T> {
+  const { advanceTimers, timeout = 1000 } = options;
+
+  async function advance(ms: number): Promise<void> {
+    if (advanceTimers) {
+      await advanceTimers(ms);
+    } else {
+      await new Promise(resolve => setTimeout(resolve, ms));
+    }
+    await flushMicrotasks();
+  }
+
+  async function waitForValidation(): Promise<void> {
+    await flushMicrotasks();
+    for (let elapsed = 0; control.validating; elapsed += POLL_MS) {
+      if (elapsed >= timeout) {
+        throw new Error(`[FormControlDriver] Validation did not settle within ${timeout}ms`);
+      }
+      await advance(POLL_MS);
+    }
+  }
+
+  return {
+    control,
+
+    async type(value: T) {
+      control.setValue(value);
+      await advance(VALIDATION_DEBOUNCE_MS);
+      await waitForValidation();
+    },
+
+    async blur() {
+      control.markTouched();
+      await waitForValidation();
+    },
+
+    async submit() {
+      control.markTouched();
+      // Timers are advanced while waiting, so validators using them can finish
+      const validation = control.validate();
+      await waitForValidation();
+      await validation;
+    },
+
+    async settle() {
+      await advance(VALIDATION_DEBOUNCE_MS);
+      await waitForValidation();
+    }
+  };
+}
@@ -0,0 +1,167 @@
+import { createHttpClient, type HttpClient, type HttpConfig } from '../http/client';
+import type { HttpRequest } from '../http/types';
+
+export interface MockResponseInit {
+  status?: number;
+  statusText?: string;
+  headers?: Record<string, string>;
+  /** Sent as JSON unless it is a string */
+  data?: any;
+  /** Respond after this many ms; the request can be aborted meanwhile */
+  delay?: number;
+}
+
+export interface RecordedRequest {
+  method: string;
+  /** Full URL, including baseURL and params */
+  url: string;
+  path: string;
+  headers: Record<string, string>;
+  body: any;
+}
+
+export type MockResponder =
+  | MockResponseInit
+  | ((request: RecordedRequest) => MockResponseInit | Promise<MockResponseInit>);
+
+export interface MockHttpClient extends HttpClient {
+  /** Every request that reached the transport, oldest first */
+  readonly calls: RecordedRequest[];
+  /** The fake fetch behind the client */
+  readonly fetch: typeof fetch;
+  /**
+   * Answer requests by method and path (or a RegExp on the full URL).
+   * Routes added later take precedence.
+   */
+  on(method: HttpRequest['method'] | '*', url: string | RegExp, responder: MockResponder): MockHttpClient;
+  /** Answer requests no route matches; defaults to a 404 */
+  otherwise(responder: MockResponder): MockHttpClient;
+  /** Forget recorded calls and routes */
+  reset(): void;
+}
+
+interface Route {
+  method: string;
+  url: string | RegExp;
+  responder: MockResponder;
+}
+
+function createHeaders(init: Record<string, string>): Headers {
+  if (typeof Headers === 'function') {
+    return new Headers(init);
+  }
+
+  const lower = Object.fromEntries(Object.entries(init).map(([key, value]) => [key.toLowerCase(), value]));
+  return { get: (name: string) => lower[name.toLowerCase()] ?? null } as Headers;
+}
+
+function createResponse(init: MockResponseInit): Response {
+  const { status = 200, data, headers = {} } = init;
+  const isText = typeof data === 'string';
+  const body = isText ? data : data === undefined ? '' : JSON.stringify(data);
+
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: init.statusText ?? (status < 400 ? 'OK' : 'Error'),
+    headers: createHeaders({
+      'content-type': isText ? 'text/plain' : 'application/json',
+      ...headers
+    }),
+    json: async () => JSON.parse(body),
+    text: async () => body
+  } as Response;
+}
+
+function abortError(signal: AbortSignal): Error {
+  const error = new Error(String(signal.reason ?? 'Request cancelled'));
+  error.name = 'AbortError';
+  return error;
+}
+
+function parseBody(body: unknown): any {
+  if (typeof body !== 'string') return body;
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
+
+/**
+ * A real HttpClient backed by a fake transport that records every request
+ * and answers from registered routes
+ */
+export function mockHttpClient(config: Omit<HttpConfig, 'fetch'> = {}): MockHttpClient {
+  const calls: RecordedRequest[] = [];
+  let routes: Route[] = [];
+  let fallback: MockResponder = request => ({
+    status: 404,
+    statusText: 'Not Found',
+    data: { error: `No mock response for ${request.method} ${request.path}` }
+  });
+
+  function matches(route: Route, request: RecordedRequest): boolean {
+    if (route.method !== '*' && route.method !== request.method) return false;
+    return typeof route.url === 'string'
+      ? route.url === request.path || route.url === request.url
+      : route.url.test(request.url);
+  }
+
+  const fakeFetch = (async (input: RequestInfo | URL, init: RequestInit = {}) => {
+    const url = String(input);
+    const request: RecordedRequest = {
+      method: (init.method || 'GET').toUpperCase(),
+      url,
+      path: new URL(url).pathname,
+      headers: { ...(init.headers as Record<string, string>) },
+      body: parseBody(init.body)
+    };
+    calls.push(request);
+
+    const route = routes.find(candidate => matches(candidate, request));
+    const responder = route ? route.responder : fallback;
+    const response = typeof responder === 'function' ? await responder(request) : responder;
+
+    const signal = init.signal;
+    if (signal?.aborted) {
+      throw abortError(signal);
+    }
+
+    if (response.delay) {
+      await new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(resolve, response.delay);
+        signal?.addEventListener('abort', () => {
+          clearTimeout(timer);
+          reject(abortError(signal));
+        });
+      });
+    }
+
+    return createResponse(response);
+  }) as typeof fetch;
+
+  const client = createHttpClient({ ...config, fetch: fakeFetch });
+
+  const mock: MockHttpClient = Object.assign(client, {
+    calls,
+    fetch: fakeFetch,
+
+    on(method: HttpRequest['method'] | '*', url: string | RegExp, responder: MockResponder) {
+      routes.unshift({ method, url, responder });
+      return mock;
+    },
+
+    otherwise(responder: MockResponder) {
+      fallback = responder;
+      return mock;
+    },
+
+    reset() {
+      calls.length = 0;
+      routes = [];
+    }
+  });
+
+  return mock;
+}
@@ -0,0 +1,3 @@
+export * from './store';
+export * from './forms';
+export * from './http';
@@ -0,0 +1,105 @@
+import {
+  createStore,
+  type Store,
+  type StoreAction,
+  type StoreConfig,
+  type StoreMiddleware,
+  type UpdateMode
+} from '../state/store';
+import { flushScheduledNotifications } from '../state/batch';
+
+export interface RecordedUpdate<T> {
+  action?: StoreAction;
+  mode: UpdateMode;
+  prevState: T;
+  nextState: T;
+}
+
+export interface MockStore<T> extends Store<T> {
+  /** Every update that went through the store, oldest first */
+  readonly updates: RecordedUpdate<T>[];
+  /** Actions of the recorded updates that had one */
+  getActions(): StoreAction[];
+  clearUpdates(): void;
+}
+
+/**
+ * Create a real store that records each update it receives. Notifications
+ * are synchronous unless `config.scheduler` says otherwise.
+ */
+export function createMockStore<T extends object>(
+  initialState: T,
+  config: Omit<StoreConfig<T>, 'initialState'> = {}
+): MockStore<T> {
+  const updates: RecordedUpdate<T>[] = [];
+
+  const recorder: StoreMiddleware<T> = (context, next) => {
+    next();
+    updates.push({
+      action: context.action,
+      mode: context.mode,
+      prevState: context.prevState,
+      nextState: context.store.getState()
+    });
+  };
+
+  const store = createStore({
+    scheduler: 'sync',
+    ...config,
+    initialState,
+    middleware: [recorder, ...(config.middleware || [])]
+  });
+
+  return Object.assign(store, {
+    updates,
+
+    getActions() {
+      return updates.flatMap(update => (update.action ? [update.action] : []));
+    },
+
+    clearUpdates() {
+      updates.length = 0;
+    }
+  });
+}
+
+/**
+ * Resolve with the state once `predicate` holds, checking the current state
+ * first. Rejects after `timeout` ms.
+ */
+export function waitForState<T>(
+  store: Pick<Store<T>, 'getState' | 'subscribe'>,
+  predicate: (state: T) => boolean,
+  timeout = 1000
+): Promise<T> {
+  const current = store.getState();
+  if (predicate(current)) {
+    return Promise.resolve(current);
+  }
+
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      unsubscribe();
+      reject(new Error(`[waitForState] Condition not met within ${timeout}ms`));
+    }, timeout);
+
+    const unsubscribe = store.subscribe(state => {
+      if (!predicate(state)) return;
+
+      clearTimeout(timer);
+      unsubscribe();
+      resolve(state);
+    });
+  });
+}
+
+/**
+ * Deliver notifications held by 'microtask', 'animationFrame' or custom
+ * schedulers, including ones queued by already resolved promises. Works
+ * under fake timers.
+ */
+export async function flushBatches(): Promise<void> {
+  flushScheduledNotifications();
+  await Promise.resolve();
+  flushScheduledNotifications();
+}
@@ -20,4 +20,15 @@ export function safeSessionStorage(): Storage {
     return safeStorage();
   }
   return window.sessionStorage;
-}
\ No newline at end of file
+}
+// Bundlers only replace the exact expression process.env.NODE_ENV, so it is
+// written out in full; unbundled in a browser `process` doesn't exist
+declare const process: { env: Record<string, string | undefined> };
+
+export function isProduction(): boolean {
+  try {
+    return process.env.NODE_ENV === 'production';
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,14 @@
+export function parsePath(path: string): string[] {
+  return path.split('.').filter(Boolean);
+}
+
+export function getPath(obj: any, segments: string[]): any {
+  let current = obj;
+  for (let i = 0; i < segments.length; i++) {
+    if (current === null || current === undefined) {
+      return undefined;
+    }
+    current = current[segments[i]];
+  }
+  return current;
+}
@@ -0,0 +1,169 @@
+interface DraftState {
+  base: any;
+  copy: any;
+  parent: DraftState | null;
+  children: Map<PropertyKey, any>;
+  modified: boolean;
+}
+
+const drafts = new WeakMap<object, DraftState>();
+const hasOwn = (obj: object, prop: PropertyKey) => Object.prototype.hasOwnProperty.call(obj, prop);
+
+function isDraftable(value: any): boolean {
+  if (typeof value !== 'object' || value === null) return false;
+  if (Array.isArray(value)) return true;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+function latest(state: DraftState): any {
+  return state.copy || state.base;
+}
+
+function markModified(state: DraftState): void {
+  if (state.modified) return;
+
+  state.modified = true;
+  state.copy = Array.isArray(state.base) ? state.base.slice() : { ...state.base };
+  state.children.forEach((child, prop) => {
+    state.copy[prop] = child;
+  });
+
+  if (state.parent) {
+    markModified(state.parent);
+  }
+}
+
+function createDraft<T extends object>(base: T, parent: DraftState | null): T {
+  const state: DraftState = {
+    base,
+    copy: null,
+    parent,
+    children: new Map(),
+    modified: false
+  };
+
+  const proxy = new Proxy(Array.isArray(base) ? [] : {}, {
+    get(_target, prop) {
+      const source = latest(state);
+      const value = source[prop];
+
+      if (!hasOwn(source, prop) || !isDraftable(value) || drafts.has(value)) {
+        return value;
+      }
+
+      // Values assigned during the recipe are already fresh, only draft originals
+      if (value !== state.base[prop]) {
+        return value;
+      }
+
+      let child = state.children.get(prop);
+      if (!child) {
+        child = createDraft(value, state);
+        state.children.set(prop, child);
+        if (state.copy) {
+          state.copy[prop] = child;
+        }
+      }
+      return child;
+    },
+
+    set(_target, prop, value) {
+      const source = latest(state);
+      if (hasOwn(source, prop) && Object.is(source[prop], value)) {
+        return true;
+      }
+
+      markModified(state);
+      state.children.delete(prop);
+      state.copy[prop] = value;
+      return true;
+    },
+
+    deleteProperty(_target, prop) {
+      if (!hasOwn(latest(state), prop)) {
+        return true;
+      }
+
+      markModified(state);
+      state.children.delete(prop);
+      delete state.copy[prop];
+      return true;
+    },
+
+    has(_target, prop) {
+      return prop in latest(state);
+    },
+
+    ownKeys() {
+      return Reflect.ownKeys(latest(state));
+    },
+
+    getOwnPropertyDescriptor(_target, prop) {
+      const source = latest(state);
+      const descriptor = Reflect.getOwnPropertyDescriptor(source, prop);
+      if (!descriptor) return undefined;
+
+      return {
+        writable: true,
+        configurable: !Array.isArray(source) || prop !== 'length',
+        enumerable: descriptor.enumerable,
+        value: source[prop]
+      };
+    },
+
+    getPrototypeOf() {
+      return Object.getPrototypeOf(state.base);
+    }
+  });
+
+  drafts.set(proxy, state);
+  return proxy as T;
+}
+
+// Replace drafts anywhere in `result`, including inside new objects and
+// arrays created during the recipe, e.g. `draft.todos.filter(...)`
+function finalizeChildren(result: any, base: any, seen: Set<object>): any {
+  if (seen.has(result)) return result;
+  seen.add(result);
+
+  Reflect.ownKeys(result).forEach(key => {
+    const value = result[key];
+    // Untouched originals can't contain drafts
+    if (base && hasOwn(base, key) && value === base[key]) return;
+
+    const finalized = finalize(value, seen);
+    if (finalized !== value) {
+      result[key] = finalized;
+    }
+  });
+  return result;
+}
+
+function finalize(value: any, seen: Set<object>): any {
+  if (typeof value !== 'object' || value === null) return value;
+
+  const state = drafts.get(value);
+  if (!state) {
+    return isDraftable(value) ? finalizeChildren(value, null, seen) : value;
+  }
+  if (!state.modified) return state.base;
+  return finalizeChildren(state.copy, state.base, seen);
+}
+
+/**
+ * Apply mutations to a copy-on-write draft of `base` and return the next
+ * immutable value. Untouched branches keep their identity.
+ * Only plain objects and arrays are drafted.
+ */
+export function produce<T>(base: T, recipe: (draft: T) => T | void): T {
+  if (!isDraftable(base)) {
+    const result = recipe(base);
+    return result === undefined ? base : result as T;
+  }
+
+  const draft = createDraft(base as any, null);
+  const result = recipe(draft);
+  // A returned value may be a new object that still references drafts
+  return finalize(result === undefined ? draft : result, new Set());
+}
@@ -19,9 +19,10 @@ export function debounce<T extends (...args: any[]) => any>(
 export function throttle<T extends (...args: any[]) => any>(
   fn: T,
   limit: number
-): ((...args: Parameters<T>) => void) & { cancel: () => void } {
+): ((...args: Parameters<T>) => void) & { cancel: () => void; flush: () => void } {
   let lastRan = 0;
   let timeoutId: any;
+  let pending: (() => void) | null = null;
 
   const throttled = function(this: any, ...args: Parameters<T>) {
     const now = Date.now();
@@ -31,15 +32,24 @@ export function throttle<T extends (...args: any[]) => any>(
       lastRan = now;
     } else {
       clearTimeout(timeoutId);
-      timeoutId = setTimeout(() => {
+      pending = () => {
+        pending = null;
         fn.apply(this, args);
         lastRan = Date.now();
-      }, limit - (now - lastRan));
+      };
+      timeoutId = setTimeout(pending, limit - (now - lastRan));
     }
   };
 
   throttled.cancel = () => {
     clearTimeout(timeoutId);
+    pending = null;
+  };
+
+  // Run the trailing call now instead of waiting for it
+  throttled.flush = () => {
+    clearTimeout(timeoutId);
+    pending?.();
   };
 
   return throttled;